@@ -0,0 +1,200 @@
+import { createHash } from 'node:crypto';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import type { Issue } from './types.js';
+
+/**
+ * Default baseline file name, relative to cwd
+ */
+export const BASELINE_FILE = '.lintmesh-baseline.json';
+
+export const BaselineEntrySchema = z.object({
+  /** Hash of path, ruleId, message and normalized source line */
+  fingerprint: z.string(),
+  /** Kept for humans reviewing or pruning the file */
+  path: z.string(),
+  ruleId: z.string(),
+  message: z.string(),
+});
+
+export const BaselineFileSchema = z.object({
+  version: z.literal(1),
+  entries: z.array(BaselineEntrySchema),
+});
+
+export type BaselineEntry = z.infer<typeof BaselineEntrySchema>;
+export type BaselineFile = z.infer<typeof BaselineFileSchema>;
+
+/**
+ * A loaded baseline and where it came from
+ */
+export interface Baseline {
+  path: string;
+  entries: BaselineEntry[];
+}
+
+/**
+ * Baseline results attached to the output of a run
+ */
+export interface BaselineReport {
+  /** Baseline file that was applied */
+  path: string;
+  /** Number of issues dropped because they were in the baseline */
+  suppressed: number;
+  /**
+   * Baseline entries that matched no issue although their linter ran
+   * successfully on their file (safe to prune)
+   */
+  unmatched: BaselineEntry[];
+}
+
+/**
+ * Collapse whitespace so re-indenting a line doesn't change its fingerprint
+ */
+function normalizeLine(text: string): string {
+  return text.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Reads source files once and caches their lines
+ */
+class SourceLines {
+  private cache = new Map<string, string[] | null>();
+
+  constructor(private cwd: string) {}
+
+  get(filePath: string, line: number): string {
+    let lines = this.cache.get(filePath);
+    if (lines === undefined) {
+      try {
+        lines = readFileSync(path.resolve(this.cwd, filePath), 'utf-8').split(/\r?\n/);
+      } catch {
+        lines = null;
+      }
+      this.cache.set(filePath, lines);
+    }
+    return lines?.[line - 1] ?? '';
+  }
+}
+
+/**
+ * Fingerprint an issue by path, rule, message and the normalized text of
+ * its line. Line numbers are left out so unrelated edits don't invalidate
+ * the baseline.
+ */
+export function baselineFingerprint(issue: Issue, sourceLine: string): string {
+  return createHash('sha256')
+    .update([issue.path, issue.ruleId, issue.message, normalizeLine(sourceLine)].join('\0'))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Create baseline entries for issues, reading their source lines from cwd
+ */
+export function createBaselineEntries(issues: Issue[], cwd: string): BaselineEntry[] {
+  const source = new SourceLines(cwd);
+  return issues.map(issue => ({
+    fingerprint: baselineFingerprint(issue, source.get(issue.path, issue.line)),
+    path: issue.path,
+    ruleId: issue.ruleId,
+    message: issue.message,
+  }));
+}
+
+/**
+ * Write a baseline file for the given issues
+ */
+export function writeBaseline(issues: Issue[], cwd: string, filePath: string): BaselineFile {
+  const baseline: BaselineFile = {
+    version: 1,
+    entries: createBaselineEntries(issues, cwd),
+  };
+  writeFileSync(filePath, JSON.stringify(baseline, null, 2) + '\n', 'utf-8');
+  return baseline;
+}
+
+/**
+ * Load a baseline file, or null if it doesn't exist
+ */
+export function loadBaseline(filePath: string): Baseline | null {
+  if (!existsSync(filePath)) {
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid baseline in ${filePath}: ${message}`);
+  }
+
+  const result = BaselineFileSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new Error(`Invalid baseline in ${filePath}: ${result.error.message}`);
+  }
+
+  return { path: filePath, entries: result.data.entries };
+}
+
+/**
+ * Filters issues against a baseline. Each entry suppresses at most one
+ * issue, so new copies of an already-baselined problem still surface.
+ */
+export class BaselineMatcher {
+  private remaining = new Map<string, BaselineEntry[]>();
+  /** Files each linter checked, relative to cwd */
+  private checked = new Map<string, Set<string>>();
+  private source: SourceLines;
+  private suppressedCount = 0;
+
+  constructor(private baseline: Baseline, cwd: string) {
+    this.source = new SourceLines(cwd);
+    for (const entry of baseline.entries) {
+      const list = this.remaining.get(entry.fingerprint);
+      if (list) {
+        list.push(entry);
+      } else {
+        this.remaining.set(entry.fingerprint, [entry]);
+      }
+    }
+  }
+
+  /** Drop issues that match a not-yet-used baseline entry */
+  filter(issues: Issue[]): Issue[] {
+    return issues.filter(issue => {
+      const fingerprint = baselineFingerprint(issue, this.source.get(issue.path, issue.line));
+      const entries = this.remaining.get(fingerprint);
+      if (!entries?.length) return true;
+
+      entries.pop();
+      this.suppressedCount++;
+      return false;
+    });
+  }
+
+  /**
+   * Record files a linter ran on successfully. Only entries for these can be
+   * unmatched; the others may just be outside a partial run.
+   */
+  linted(linter: string, files: string[]): void {
+    const checked = this.checked.get(linter) ?? new Set<string>();
+    for (const file of files) {
+      checked.add(file);
+    }
+    this.checked.set(linter, checked);
+  }
+
+  /** Suppressed count and entries that matched nothing */
+  report(): BaselineReport {
+    const isChecked = (entry: BaselineEntry) =>
+      this.checked.get(entry.ruleId.split('/')[0])?.has(entry.path) ?? false;
+    return {
+      path: this.baseline.path,
+      suppressed: this.suppressedCount,
+      unmatched: [...this.remaining.values()].flat().filter(isChecked),
+    };
+  }
+}
@@ -14,8 +14,8 @@ export const LinterConfigSchema = z.object({
   enabled: z.boolean().default(true),
   /**
    * Binary path resolution:
-   * - null/undefined: auto-resolve (node_modules/.bin → PATH)
-   * - string: explicit path or command name
+   * - null/undefined: auto-resolve (node_modules/.bin → PATH → parent node_modules/.bin)
+   * - string: explicit path (relative to the config file) or command name
    */
   bin: z.string().nullable().optional(),
   /** Extra arguments to append to linter command */
@@ -24,6 +24,129 @@ export const LinterConfigSchema = z.object({
 
 export type LinterConfig = z.infer<typeof LinterConfigSchema>;
 
+/**
+ * Built-in output formats
+ */
+export const REPORTER_NAMES = [
+  'compact',
+  'stylish',
+  'json',
+  'ndjson',
+  'markdown',
+  'rdjson',
+  'rdjsonl',
+  'sarif',
+  'github',
+  'junit',
+  'checkstyle',
+  'gitlab',
+] as const;
+export type ReporterName = (typeof REPORTER_NAMES)[number];
+
+/**
+ * A built-in reporter and where to write its output
+ */
+export const BuiltinReporterConfigSchema = z.object({
+  /** Output format */
+  format: z.enum(REPORTER_NAMES),
+  /** File to write to, relative to cwd (omit for stdout) */
+  output: z.string().optional(),
+});
+
+/**
+ * A custom reporter loaded from a local ESM module
+ */
+export const CustomReporterConfigSchema = z.object({
+  /** Path to the module, relative to the config file */
+  module: z.string().min(1),
+  /** File to write to, relative to cwd (omit for stdout) */
+  output: z.string().optional(),
+  /** Arbitrary options passed to the reporter as ctx.options */
+  options: z.record(z.string(), z.unknown()).optional(),
+});
+
+/**
+ * A reporter and where to write its output
+ */
+export const ReporterConfigSchema = z.union([BuiltinReporterConfigSchema, CustomReporterConfigSchema]);
+
+export type BuiltinReporterConfig = z.infer<typeof BuiltinReporterConfigSchema>;
+export type CustomReporterConfig = z.infer<typeof CustomReporterConfigSchema>;
+export type ReporterConfig = z.infer<typeof ReporterConfigSchema>;
+
+/**
+ * GitLab Code Quality severity levels
+ */
+export const GITLAB_SEVERITIES = ['blocker', 'critical', 'major', 'minor', 'info'] as const;
+export type GitlabSeverity = (typeof GITLAB_SEVERITIES)[number];
+
+/**
+ * GitLab Code Quality reporter options
+ */
+export const GitlabReporterConfigSchema = z.object({
+  /** Map lintmesh severity to GitLab severity (defaults: error→major, warning→minor, info→info) */
+  severity: z.object({
+    error: z.enum(GITLAB_SEVERITIES).optional(),
+    warning: z.enum(GITLAB_SEVERITIES).optional(),
+    info: z.enum(GITLAB_SEVERITIES).optional(),
+  }).optional(),
+});
+
+/**
+ * Markdown reporter options
+ */
+export const MarkdownReporterConfigSchema = z.object({
+  /** Maximum number of issues listed (default: 100); the rest become "and N more" */
+  maxIssues: z.number().int().nonnegative().optional(),
+});
+
+/**
+ * Cross-linter duplicate merging
+ */
+export const MergeConfigSchema = z.object({
+  /** Merge duplicates on every run (same as --merge) */
+  enabled: z.boolean().optional(),
+  /** Linters from most to least trusted; defaults to the order linters run in */
+  priority: z.array(z.enum(LINTER_IDS)).optional(),
+});
+
+/**
+ * Inline lintmesh-ignore comments
+ */
+export const SuppressionConfigSchema = z.object({
+  /** Ignore directives without a "-- reason" and report them as errors */
+  requireReason: z.boolean().optional(),
+  /** Report directives that suppressed nothing (default: true) */
+  reportUnused: z.boolean().optional(),
+});
+
+/**
+ * Rule severity overrides: rule ID, canonical rule ID or glob to "off" or a severity
+ */
+export const RulesConfigSchema = z.record(z.string(), z.enum(['off', 'error', 'warning', 'info']));
+
+/**
+ * Settings for files matching a set of globs
+ */
+export const OverrideConfigSchema = z.object({
+  /** Globs relative to cwd */
+  files: z.array(z.string()).min(1),
+  /** Globs for files to leave out */
+  excludeFiles: z.array(z.string()).optional(),
+  /** Turn linters off or on, or replace their args, for matching files */
+  linters: z.record(
+    z.enum(LINTER_IDS),
+    z.object({
+      enabled: z.boolean().optional(),
+      args: z.array(z.string()).optional(),
+    })
+  ).optional(),
+  /** Merged over the top-level rules map */
+  rules: RulesConfigSchema.optional(),
+  /** Exit code threshold for issues in matching files */
+  failOn: z.enum(['error', 'warning', 'info']).optional(),
+});
+
 /**
  * Full lintmesh configuration file schema
  */
@@ -31,6 +154,12 @@ export const ConfigSchema = z.object({
   /** JSON schema URL for IDE support */
   $schema: z.string().optional(),
 
+  /** Don't merge configs from parent directories */
+  root: z.boolean().optional(),
+
+  /** Presets merged under this config: paths relative to this file, or packages in node_modules */
+  extends: z.union([z.string(), z.array(z.string())]).optional(),
+
   /** Linter configurations keyed by linter ID */
   linters: z.record(
     z.enum(LINTER_IDS),
@@ -48,6 +177,30 @@ export const ConfigSchema = z.object({
 
   /** Exit code threshold */
   failOn: z.enum(['error', 'warning', 'info']).optional(),
+
+  /** Reporters to run when no --format is given on the command line */
+  reporters: z.array(ReporterConfigSchema).optional(),
+
+  /** Options for the GitLab Code Quality reporter */
+  gitlab: GitlabReporterConfigSchema.optional(),
+
+  /** Options for the Markdown reporter */
+  markdown: MarkdownReporterConfigSchema.optional(),
+
+  /** Merge issues reported by more than one linter */
+  merge: MergeConfigSchema.optional(),
+
+  /** Extra rule equivalences: canonical rule ID to linter rule IDs (e.g., "biome/noUnusedVariables") */
+  ruleEquivalences: z.record(z.string(), z.array(z.string())).optional(),
+
+  /** Severity overrides keyed by rule ID, canonical rule ID or glob (e.g., "oxlint/*"): "off", "error", "warning" or "info" */
+  rules: RulesConfigSchema.optional(),
+
+  /** Settings for files matching globs, applied in order (later overrides win) */
+  overrides: z.array(OverrideConfigSchema).optional(),
+
+  /** Inline suppression comment options */
+  suppressions: SuppressionConfigSchema.optional(),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
@@ -0,0 +1,191 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { runLinters, type RunContext } from './runner.js';
+import { groupByFile } from './utils/group.js';
+import { createUnifiedDiff } from './utils/diff.js';
+import type { CliOptions, Fix, Issue, VibelintOutput } from './types.js';
+
+/**
+ * Upper bound on fix passes, matching ESLint's fix loop
+ */
+export const MAX_FIX_PASSES = 10;
+
+/**
+ * Results of the fix loop attached to the output of a run
+ */
+export interface FixReport {
+  /** Number of fix passes that applied at least one fix */
+  passes: number;
+  /** Total fixes applied across all passes */
+  applied: number;
+  /** Files that were modified, relative to cwd */
+  files: string[];
+  /** False if selected fixes were still reported when the loop stopped */
+  converged: boolean;
+}
+
+/**
+ * Unified diff of the fixes --fix-dry-run would make to one file
+ */
+export interface FilePatch {
+  /** Path relative to cwd */
+  path: string;
+  /** Unified diff, valid input for `git apply` */
+  diff: string;
+}
+
+/**
+ * Result of applying fixes to a single file's content
+ */
+export interface AppliedFixes {
+  content: Buffer;
+  /** Number of fixes applied */
+  applied: number;
+  /** Fixes left out because they overlapped an earlier fix or were out of bounds */
+  skipped: number;
+}
+
+/**
+ * Whether an issue's fix is selected by --fix-rule and --fix-source.
+ * Rules match either the linter's rule ID or the canonical rule ID.
+ */
+export function isFixSelected(issue: Issue, options: Pick<CliOptions, 'fixRules' | 'fixSources'>): boolean {
+  if (!issue.fix) return false;
+  if (options.fixSources?.length && !options.fixSources.includes(issue.source)) return false;
+  if (options.fixRules?.length) {
+    return options.fixRules.some(rule => rule === issue.ruleId || rule === issue.canonicalRuleId);
+  }
+  return true;
+}
+
+/**
+ * Apply fixes to file content in one pass. Each fix is applied atomically.
+ * Fixes are taken in order of position; one that overlaps or touches an
+ * earlier fix is skipped and left for the next pass, like ESLint does.
+ * Identical fixes (e.g., from two linters reporting the same issue) count once.
+ * Offsets are 0-indexed UTF-8 bytes.
+ */
+export function applyFixes(content: Buffer, fixes: Fix[]): AppliedFixes {
+  const seen = new Set<string>();
+  const candidates: Array<{ replacements: Fix['replacements']; start: number; end: number }> = [];
+  let skipped = 0;
+
+  for (const fix of fixes) {
+    const replacements = [...fix.replacements].sort((a, b) => a.startOffset - b.startOffset);
+    const key = JSON.stringify(replacements);
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const valid = replacements.length > 0 && replacements.every((r, i) =>
+      r.startOffset >= 0
+      && r.startOffset <= r.endOffset
+      && r.endOffset <= content.length
+      && (i === 0 || replacements[i - 1].endOffset <= r.startOffset)
+    );
+    if (!valid) {
+      skipped++;
+      continue;
+    }
+
+    candidates.push({
+      replacements,
+      start: replacements[0].startOffset,
+      end: Math.max(...replacements.map(r => r.endOffset)),
+    });
+  }
+
+  candidates.sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const chunks: Buffer[] = [];
+  let cursor = 0;
+  let lastEnd = -1;
+  let applied = 0;
+
+  for (const candidate of candidates) {
+    if (candidate.start <= lastEnd) {
+      skipped++;
+      continue;
+    }
+    for (const replacement of candidate.replacements) {
+      chunks.push(content.subarray(cursor, replacement.startOffset), Buffer.from(replacement.text, 'utf-8'));
+      cursor = replacement.endOffset;
+    }
+    lastEnd = candidate.end;
+    applied++;
+  }
+
+  chunks.push(content.subarray(cursor));
+  return { content: Buffer.concat(chunks), applied, skipped };
+}
+
+/**
+ * Lint, apply the selected fixes, and re-run the linters until no selected
+ * fixes remain or MAX_FIX_PASSES is reached. Returns the output of the last
+ * run with a fix report attached.
+ * @param context Files and settings from resolveRun, if already resolved
+ */
+export async function runFixLoop(options: CliOptions, context?: RunContext): Promise<VibelintOutput> {
+  const report: FixReport = { passes: 0, applied: 0, files: [], converged: true };
+  const fixedFiles = new Set<string>();
+
+  let output = await runLinters(options, undefined, context);
+
+  for (let pass = 1; ; pass++) {
+    const selected = output.issues.filter(issue => isFixSelected(issue, options));
+    if (selected.length === 0) {
+      break;
+    }
+    if (pass > MAX_FIX_PASSES) {
+      report.converged = false;
+      break;
+    }
+
+    let appliedThisPass = 0;
+    for (const [file, issues] of groupByFile(selected)) {
+      const filePath = path.resolve(options.cwd, file);
+      const result = applyFixes(readFileSync(filePath), issues.map(issue => issue.fix as Fix));
+      if (result.applied > 0) {
+        writeFileSync(filePath, result.content);
+        appliedThisPass += result.applied;
+        fixedFiles.add(file);
+      }
+    }
+
+    // Nothing could be applied: re-running would report the same fixes
+    if (appliedThisPass === 0) {
+      report.converged = false;
+      break;
+    }
+
+    report.passes = pass;
+    report.applied += appliedThisPass;
+
+    // Fixed text can add or remove issues for any linter, so re-run them all
+    output = await runLinters(options, undefined, context);
+  }
+
+  report.files = [...fixedFiles].sort();
+  output.fixes = report;
+  return output;
+}
+
+/**
+ * Compute the selected fixes in memory and describe them as unified diffs,
+ * without writing anything. This is a single pass: fixes that overlap an
+ * earlier fix are left out.
+ */
+export function previewFixes(output: VibelintOutput, options: CliOptions): FilePatch[] {
+  const selected = output.issues.filter(issue => isFixSelected(issue, options));
+  const patches: FilePatch[] = [];
+
+  for (const [file, issues] of groupByFile(selected)) {
+    const content = readFileSync(path.resolve(options.cwd, file));
+    const result = applyFixes(content, issues.map(issue => issue.fix as Fix));
+    const diff = createUnifiedDiff(file, content.toString('utf-8'), result.content.toString('utf-8'));
+    if (diff) {
+      patches.push({ path: file, diff });
+    }
+  }
+
+  return patches.sort((a, b) => a.path.localeCompare(b.path));
+}
@@ -1,29 +1,196 @@
 #!/usr/bin/env node
 
 import { program } from 'commander';
-import { createRequire } from 'node:module';
-import { runLinters } from './runner.js';
+import path from 'node:path';
+import { resolveRun, runLinters, type LinterCompletion } from './runner.js';
+import { previewFixes, runFixLoop } from './fixer.js';
 import { computeExitCode } from './utils/exit-code.js';
 import { init, printInitSummary } from './init.js';
-import { loadConfig, getConfigWithDefaults } from './utils/config-loader.js';
-import { createColors } from './utils/colors.js';
-import type { LinterName, Severity, LinterConfigArgs } from './types.js';
-import type { LinterId } from './config.js';
-
-const require = createRequire(import.meta.url);
-const { version: VERSION } = require('../package.json');
+import { loadConfig, loadNestedConfigs, getConfigWithDefaults, describeConfigSources, type LoadedConfig } from './utils/config-loader.js';
+import { STREAMING_REPORTERS, loadReporters, resolveReporters, writeReports } from './reporters/index.js';
+import { BASELINE_FILE, loadBaseline, writeBaseline } from './baseline.js';
+import { getChangedFiles } from './utils/git.js';
+import { StagedTree, installHook } from './staged.js';
+import { isDirectiveIssue } from './suppressions.js';
+import { issuesForRun } from './utils/group.js';
+import type { CliOptions, LinterName, Severity, LinterConfigArgs, VibelintOutput } from './types.js';
+import type { ConfigScope } from './overrides.js';
+import { REPORTER_NAMES, type LinterId } from './config.js';
+import { VERSION } from './version.js';
 
 const VALID_LINTERS = ['eslint', 'oxlint', 'tsc', 'biome'] as const;
 
+/** Commander collector for repeatable options */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
 /** Map LinterId from config to LinterName used by adapters */
 function linterIdToName(id: LinterId): LinterName {
   return id;
 }
 
+/** Flags shared by the lint and baseline commands */
+interface RunFlags {
+  linters: string;
+  failOn: string;
+  timeout: string;
+  cwd: string;
+  quiet: boolean;
+  verbose: boolean;
+  fix?: boolean;
+  fixDryRun?: boolean;
+  fixRule?: string[];
+  fixSource?: string[];
+  pretty?: boolean;
+  merge?: boolean;
+  workspaces?: boolean;
+}
+
+/**
+ * Turn CLI flags and config into runner options.
+ * Exits with code 2 on invalid flag values.
+ */
+function buildCliOptions(
+  files: string[],
+  opts: RunFlags,
+  loadedConfig: LoadedConfig,
+  output: { json: boolean; interactive: boolean }
+): CliOptions {
+  const configDefaults = getConfigWithDefaults(loadedConfig.config);
+
+  // Show which preset each config value came from
+  if (opts.verbose) {
+    for (const line of describeConfigSources(loadedConfig, opts.cwd)) {
+      console.error(`lintmesh: ${line}`);
+    }
+  }
+
+  // Determine linters: CLI override > config > default
+  let linterList: LinterName[];
+  const cliLintersProvided = opts.linters !== 'eslint,oxlint,tsc'; // Check if user provided --linters
+
+  if (cliLintersProvided) {
+    // CLI explicitly specified linters
+    const parsed = opts.linters.split(',').map((s: string) => s.trim().toLowerCase());
+    const invalid = parsed.filter((l: string) => !VALID_LINTERS.includes(l as typeof VALID_LINTERS[number]));
+    if (invalid.length > 0) {
+      console.error(`Invalid linter(s): ${invalid.join(', ')}. Valid: ${VALID_LINTERS.join(', ')}`);
+      process.exit(2);
+    }
+    linterList = parsed as LinterName[];
+  } else if (loadedConfig.enabledLinters.length > 0) {
+    // Use linters from config
+    linterList = loadedConfig.enabledLinters.map(linterIdToName);
+    if (opts.verbose) {
+      console.error(`lintmesh: using config from ${loadedConfig.configPath}`);
+    }
+  } else {
+    // Fall back to default
+    linterList = ['eslint', 'oxlint', 'tsc'];
+  }
+
+  // Validate fail-on
+  const failOn = opts.failOn || configDefaults.failOn;
+  if (!['error', 'warning', 'info'].includes(failOn)) {
+    console.error(`Invalid --fail-on value: ${failOn}. Valid: error, warning, info`);
+    process.exit(2);
+  }
+
+  // Parse timeout
+  const timeoutStr = opts.timeout;
+  const timeout = timeoutStr === '30000' ? configDefaults.timeout : parseInt(timeoutStr, 10);
+  if (isNaN(timeout) || timeout <= 0) {
+    console.error(`Invalid --timeout value: ${timeoutStr}. Must be positive integer.`);
+    process.exit(2);
+  }
+
+  // Selective fixes imply --fix, unless previewing them
+  const fixRules = opts.fixRule ?? [];
+  const fixSources = (opts.fixSource ?? []).flatMap(s => s.split(',')).map(s => s.trim().toLowerCase());
+  const invalidSources = fixSources.filter(s => !VALID_LINTERS.includes(s as typeof VALID_LINTERS[number]));
+  if (invalidSources.length > 0) {
+    console.error(`Invalid --fix-source value(s): ${invalidSources.join(', ')}. Valid: ${VALID_LINTERS.join(', ')}`);
+    process.exit(2);
+  }
+  const fixDryRun = opts.fixDryRun ?? false;
+  const fix = ((opts.fix ?? false) || fixRules.length > 0 || fixSources.length > 0) && !fixDryRun;
+
+  // Use files from CLI if provided, otherwise use config include patterns
+  const filesToLint = files.length > 0 ? files : configDefaults.include;
+
+  // Extract per-linter bin and args from config. A bin path is relative to
+  // the config file, like reporter modules; a bare name is looked up on PATH.
+  const linterConfigs: Partial<Record<LinterName, LinterConfigArgs>> = {};
+  if (loadedConfig.config.linters) {
+    for (const [id, cfg] of Object.entries(loadedConfig.config.linters)) {
+      const bin = cfg.bin && /[\\/]/.test(cfg.bin)
+        ? path.resolve(loadedConfig.configDir ?? opts.cwd, cfg.bin)
+        : cfg.bin ?? undefined;
+      if (cfg.args?.length || bin) {
+        linterConfigs[id as LinterName] = {
+          ...(bin && { bin }),
+          ...(cfg.args?.length && { args: cfg.args }),
+        };
+      }
+    }
+  }
+
+  // Files below a nested config use its linters, rules, overrides and failOn.
+  // Linters chosen with --linters run everywhere.
+  const scopes: ConfigScope[] = loadNestedConfigs(loadedConfig, opts.cwd).map(nested => {
+    const enabled = cliLintersProvided || nested.enabledLinters.length === 0
+      ? linterList
+      : nested.enabledLinters.map(linterIdToName);
+    return {
+      dir: path.relative(opts.cwd, nested.configDir as string),
+      linters: Object.fromEntries(enabled.map(name => [name, { enabled: true, args: nested.config.linters?.[name]?.args }])),
+      rules: nested.config.rules,
+      failOn: nested.config.failOn ?? (failOn as Severity),
+      overrides: nested.config.overrides,
+    };
+  });
+
+  // Merge duplicates when asked on the CLI or in config
+  const mergeConfig = loadedConfig.config.merge;
+  const merge = opts.merge || mergeConfig?.enabled
+    ? { priority: mergeConfig?.priority ?? linterList }
+    : undefined;
+
+  return {
+    files: filesToLint,
+    exclude: configDefaults.exclude,
+    json: output.json,
+    pretty: opts.pretty ?? false,
+    fix,
+    fixDryRun,
+    fixRules: fixRules.length > 0 ? fixRules : undefined,
+    fixSources: fixSources.length > 0 ? fixSources as LinterName[] : undefined,
+    linters: linterList,
+    failOn: failOn as Severity,
+    timeout,
+    cwd: opts.cwd,
+    quiet: opts.quiet,
+    verbose: opts.verbose,
+    interactive: output.interactive,
+    linterConfigs,
+    ruleEquivalences: loadedConfig.config.ruleEquivalences,
+    merge,
+    rules: loadedConfig.config.rules,
+    overrides: loadedConfig.config.overrides,
+    configDir: loadedConfig.configDir ? path.relative(opts.cwd, loadedConfig.configDir) : undefined,
+    scopes: scopes.length > 0 ? scopes : undefined,
+    suppressions: loadedConfig.config.suppressions,
+    workspaces: opts.workspaces ?? false,
+  };
+}
+
 program
   .name('lintmesh')
   .description('Unified linter runner with JSON output for coding agents')
-  .version(VERSION);
+  .version(VERSION)
+  // Let subcommands reuse option names like --cwd and --linters
+  .enablePositionalOptions();
 
 program
   .command('init')
@@ -40,137 +207,246 @@ program
     }
   });
 
+program
+  .command('baseline')
+  .description(`Record current issues in ${BASELINE_FILE} so later runs only report new ones`)
+  .argument('[files...]', 'Files or globs to lint')
+  .option('--output <path>', 'Baseline file to write', BASELINE_FILE)
+  .option('--linters <list>', 'Comma-separated linters: eslint,oxlint,tsc,biome', 'eslint,oxlint,tsc')
+  .option('--timeout <ms>', 'Per-linter timeout in milliseconds', '30000')
+  .option('--cwd <path>', 'Working directory', process.cwd())
+  .option('--quiet', 'Suppress stderr progress messages', false)
+  .option('--verbose', 'Show command lines being executed', false)
+  .option('--workspaces', 'Lint each workspace package in its own directory (npm, yarn, bun or pnpm workspaces)', false)
+  .action(async (files, opts) => {
+    try {
+      const loadedConfig = loadConfig(opts.cwd);
+      const options = buildCliOptions(files, { ...opts, failOn: 'error' }, loadedConfig, {
+        json: false,
+        interactive: process.stderr.isTTY && !opts.quiet,
+      });
+
+      // Baselines are matched per linter before merging, so record every linter's copy of an issue
+      const output = await runLinters({ ...options, merge: undefined });
+      if (output.linters.length > 0 && output.linters.every(l => !l.success)) {
+        console.error('lintmesh: all linters failed, baseline not written');
+        process.exit(2);
+      }
+
+      // Directive issues are reported after the baseline is applied, so they can't be baselined
+      const baselinePath = path.resolve(opts.cwd, opts.output);
+      const baseline = writeBaseline(output.issues.filter(i => !isDirectiveIssue(i)), opts.cwd, baselinePath);
+      if (!opts.quiet) {
+        console.error(`Wrote ${baseline.entries.length} issues to ${baselinePath}`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`lintmesh: ${message}`);
+      process.exit(2);
+    }
+  });
+
+program
+  .command('install-hook')
+  .description('Write a git pre-commit hook that runs lintmesh --staged')
+  .option('--fix', 'Fix staged files in the hook', false)
+  .option('--force', 'Overwrite an existing pre-commit hook', false)
+  .option('--cwd <path>', 'Working directory', process.cwd())
+  .action(async (opts) => {
+    try {
+      const hookPath = await installHook({ cwd: opts.cwd, fix: opts.fix, force: opts.force });
+      console.error(`Installed pre-commit hook at ${hookPath}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`lintmesh: ${message}`);
+      process.exit(2);
+    }
+  });
+
 program
   .argument('[files...]', 'Files or globs to lint')
   .option('--json', 'Output full JSON (default: compact LLM format)', false)
+  .option(
+    '--format <name[:path]>',
+    `Output format, optionally written to a file (repeatable): ${REPORTER_NAMES.join('|')}`,
+    collect,
+    []
+  )
   .option('--pretty', 'Pretty-print JSON output', false)
   .option('--fix', 'Auto-fix issues where possible', false)
+  .option('--fix-dry-run', 'Print fixes as a unified diff (or JSON patches) without writing files', false)
+  .option('--fix-rule <id>', 'Only fix issues of this rule or canonical rule (repeatable, implies --fix)', collect, [])
+  .option('--fix-source <linter>', 'Only apply fixes from this linter (repeatable, implies --fix)', collect, [])
   .option('--linters <list>', 'Comma-separated linters: eslint,oxlint,tsc,biome', 'eslint,oxlint,tsc')
   .option('--fail-on <level>', 'Exit non-zero threshold: error|warning|info', 'error')
   .option('--timeout <ms>', 'Per-linter timeout in milliseconds', '30000')
   .option('--cwd <path>', 'Working directory', process.cwd())
   .option('--quiet', 'Suppress stderr progress messages', false)
   .option('--verbose', 'Show command lines being executed', false)
+  .option('--workspaces', 'Lint each workspace package in its own directory (npm, yarn, bun or pnpm workspaces)', false)
+  .option('--baseline <path>', 'Hide issues recorded in this baseline file', BASELINE_FILE)
+  .option('--no-baseline', 'Report all issues, ignoring any baseline file')
+  .option('--since <ref>', 'Only lint files changed since the merge base with <ref>')
+  .option('--changed', 'Only lint files with uncommitted changes', false)
+  .option('--merge', 'Merge the same issue reported by several linters into one', false)
+  .option('--staged', 'Lint the staged content of staged files (for pre-commit hooks)', false)
+  .option('--only-changed-lines', 'With --since, --changed or --staged, only report issues on changed lines', false)
   .action(async (files, opts) => {
+    let stagedTree: StagedTree | undefined;
     try {
       // Load config file if present
       const loadedConfig = loadConfig(opts.cwd);
-      const configDefaults = getConfigWithDefaults(loadedConfig.config);
-
-      // Determine linters: CLI override > config > default
-      let linterList: LinterName[];
-      const cliLintersProvided = opts.linters !== 'eslint,oxlint,tsc'; // Check if user provided --linters
-
-      if (cliLintersProvided) {
-        // CLI explicitly specified linters
-        const parsed = opts.linters.split(',').map((s: string) => s.trim().toLowerCase());
-        const invalid = parsed.filter((l: string) => !VALID_LINTERS.includes(l as typeof VALID_LINTERS[number]));
-        if (invalid.length > 0) {
-          console.error(`Invalid linter(s): ${invalid.join(', ')}. Valid: ${VALID_LINTERS.join(', ')}`);
-          process.exit(2);
-        }
-        linterList = parsed as LinterName[];
-      } else if (loadedConfig.enabledLinters.length > 0) {
-        // Use linters from config
-        linterList = loadedConfig.enabledLinters.map(linterIdToName);
-        if (opts.verbose) {
-          console.error(`lintmesh: using config from ${loadedConfig.configPath}`);
-        }
-      } else {
-        // Fall back to default
-        linterList = ['eslint', 'oxlint', 'tsc'];
-      }
 
-      // Validate fail-on
-      const failOn = opts.failOn || configDefaults.failOn;
-      if (!['error', 'warning', 'info'].includes(failOn)) {
-        console.error(`Invalid --fail-on value: ${failOn}. Valid: error, warning, info`);
-        process.exit(2);
+      // Resolve reporters: CLI --format > config reporters > compact
+      const reporterConfigs = resolveReporters(opts.format, opts.json, loadedConfig.config.reporters);
+      const reporters = await loadReporters(
+        reporterConfigs,
+        loadedConfig.configPath ? path.dirname(loadedConfig.configPath) : opts.cwd
+      );
+      const stdoutReporter = reporterConfigs.find(r => !r.output);
+      const stdoutFormat = stdoutReporter
+        ? ('format' in stdoutReporter ? stdoutReporter.format : 'custom')
+        : undefined;
+
+      // Interactive mode: TTY stderr, not quiet, no machine-readable format on stdout
+      const interactive = process.stderr.isTTY && !opts.quiet
+        && ['compact', 'stylish'].includes(stdoutFormat ?? 'compact');
+
+      const options = buildCliOptions(files, opts, loadedConfig, {
+        json: stdoutFormat === 'json',
+        interactive,
+      });
+
+      // A stdout reporter with a streaming variant writes as each linter
+      // finishes, unless merging, which needs every linter's issues first
+      const streaming = stdoutReporter && 'format' in stdoutReporter && !options.merge
+        ? STREAMING_REPORTERS[stdoutReporter.format]
+        : undefined;
+
+      // Apply baseline file if present (a missing default file is not an error)
+      if (opts.baseline !== false) {
+        const baselinePath = path.resolve(opts.cwd, opts.baseline);
+        const baseline = loadBaseline(baselinePath);
+        if (baseline) {
+          options.baseline = baseline;
+        } else if (opts.baseline !== BASELINE_FILE) {
+          throw new Error(`Baseline file not found: ${baselinePath}`);
+        }
       }
 
-      // Parse timeout
-      const timeoutStr = opts.timeout;
-      const timeout = timeoutStr === '30000' ? configDefaults.timeout : parseInt(timeoutStr, 10);
-      if (isNaN(timeout) || timeout <= 0) {
-        console.error(`Invalid --timeout value: ${timeoutStr}. Must be positive integer.`);
-        process.exit(2);
+      // Restrict to files (and optionally lines) changed in git
+      if (opts.staged) {
+        if (opts.since !== undefined || opts.changed) {
+          throw new Error('--staged cannot be combined with --since or --changed');
+        }
+        // Lint a temporary export of the index instead of the working tree
+        stagedTree = await StagedTree.create(opts.cwd);
+        options.cwd = stagedTree.cwd;
+        options.changes = stagedTree.changes;
+        options.onlyChangedLines = opts.onlyChangedLines;
+      } else if (opts.since !== undefined || opts.changed) {
+        options.changes = await getChangedFiles(opts.cwd, { since: opts.since });
+        options.onlyChangedLines = opts.onlyChangedLines;
+      } else if (opts.onlyChangedLines) {
+        throw new Error('--only-changed-lines requires --since, --changed or --staged');
       }
 
-      // Use files from CLI if provided, otherwise use config include patterns
-      const filesToLint = files.length > 0 ? files : configDefaults.include;
+      const staged = stagedTree;
+      const emit = streaming && ((completion: LinterCompletion) => {
+        const issues = staged ? completion.issues.map(i => staged.mapIssue(i)) : completion.issues;
+        process.stdout.write(streaming.linter({ ...completion, issues }) + '\n');
+      });
 
-      // Interactive mode: TTY stderr, not quiet, not outputting JSON
-      const interactive = process.stderr.isTTY && !opts.quiet && !opts.json;
+      // Files and per-file settings (overrides, nested configs), shared by fix passes and the exit code
+      const context = await resolveRun(options);
 
-      // Extract per-linter args from config
-      const linterConfigs: Partial<Record<LinterName, LinterConfigArgs>> = {};
-      if (loadedConfig.config.linters) {
-        for (const [id, cfg] of Object.entries(loadedConfig.config.linters)) {
-          if (cfg.args?.length) {
-            linterConfigs[id as LinterName] = { args: cfg.args };
+      let output: VibelintOutput;
+      if (options.fix) {
+        // Fix passes re-run the linters, so only the final results are streamed
+        output = await runFixLoop(options, context);
+        if (emit) {
+          for (const run of output.linters) {
+            emit({ run, issues: issuesForRun(output.issues, run) });
           }
         }
+        const fixes = output.fixes;
+        if (fixes && fixes.applied > 0 && !opts.quiet) {
+          console.error(
+            `lintmesh: applied ${fixes.applied} fix${fixes.applied === 1 ? '' : 'es'} to ${fixes.files.length} file${fixes.files.length === 1 ? '' : 's'} in ${fixes.passes} pass${fixes.passes === 1 ? '' : 'es'}`
+          );
+        }
+        if (fixes && !fixes.converged) {
+          console.error('lintmesh: fixes did not converge; some fixable issues remain');
+        }
+      } else {
+        output = await runLinters(options, emit, context);
+        if (options.fixDryRun) {
+          output.patches = previewFixes(output, options);
+        }
+      }
+      if (staged) {
+        // Report the real directory; the temporary tree is gone once we exit
+        output.cwd = staged.realCwd;
+        output.issues = output.issues.map(i => staged.mapIssue(i));
       }
 
-      const options = {
-        files: filesToLint,
-        exclude: configDefaults.exclude,
-        json: opts.json,
-        pretty: opts.pretty,
-        fix: opts.fix,
-        linters: linterList,
-        failOn: failOn as Severity,
-        timeout,
-        cwd: opts.cwd,
-        quiet: opts.quiet,
-        verbose: opts.verbose,
-        interactive,
-        linterConfigs,
-      };
+      // Carry fixes made to the staged copy back to the index and working tree
+      if (staged && options.fix) {
+        const { updated, conflicts } = await staged.applyFixes();
+        if (updated.length > 0 && !opts.quiet) {
+          console.error(`lintmesh: fixed and re-staged ${updated.length} file${updated.length === 1 ? '' : 's'}`);
+        }
+        for (const file of conflicts) {
+          console.error(`lintmesh: ${file}: fix staged, but it conflicts with unstaged changes; working tree left unchanged`);
+        }
+      }
 
-      const output = await runLinters(options);
+      // Point out stale baseline entries so the file can be pruned
+      const unmatched = output.baseline?.unmatched.length ?? 0;
+      if (unmatched > 0 && !opts.quiet) {
+        console.error(
+          `lintmesh: ${unmatched} baseline entr${unmatched === 1 ? 'y no longer matches' : 'ies no longer match'} any issue; run \`lintmesh baseline\` to prune`
+        );
+      }
 
-      // Compute exit code
+      // Compute exit code (baselined issues are already excluded)
       const allFailed = output.linters.every(l => !l.success);
-      const exitCode = computeExitCode(output, options.failOn, allFailed);
-
-      // Format output
-      let formattedOutput: string;
-      if (options.json) {
-        // Full JSON output
-        formattedOutput = options.pretty
-          ? JSON.stringify(output, null, 2)
-          : JSON.stringify(output);
-      } else {
-        // Compact format: path:line:col severity ruleId: message
-        const useColors = process.stdout.isTTY && !opts.quiet;
-        const c = createColors(useColors);
-
-        const lines: string[] = [];
-        for (const issue of output.issues) {
-          const loc = c.cyan(`${issue.path}:${issue.line}:${issue.column}`);
-          const sev = issue.severity === 'error' ? c.red(issue.severity) : c.yellow(issue.severity);
-          const rule = c.dim(issue.ruleId);
-          lines.push(`${loc} ${sev} ${rule}: ${issue.message}`);
-        }
-        // Add summary line
-        const { errors, warnings } = output.summary;
-        if (output.summary.total > 0) {
-          lines.push('');
-          const errText = errors > 0 ? c.red(`${errors} errors`) : `${errors} errors`;
-          const warnText = warnings > 0 ? c.yellow(`${warnings} warnings`) : `${warnings} warnings`;
-          lines.push(`${output.summary.total} issues (${errText}, ${warnText})`);
-        } else {
-          lines.push(c.cyan('No issues found'));
-        }
-        formattedOutput = lines.join('\n');
+      const exitCode = computeExitCode(
+        output,
+        options.failOn,
+        allFailed,
+        filePath => context.settings.failOn(filePath, options.failOn)
+      );
+
+      // A dry run prints its patch in place of a human-readable report
+      const printPatch = options.fixDryRun && ['compact', 'stylish'].includes(stdoutFormat ?? '');
+
+      // Write reports to their files and stdout
+      const batchReporters = streaming || printPatch
+        ? reporters.filter(r => r.config !== stdoutReporter)
+        : reporters;
+      await writeReports(output, batchReporters, {
+        cwd: output.cwd,
+        pretty: options.pretty,
+        config: loadedConfig.config,
+        env: process.env,
+        stdout: process.stdout,
+        stdoutColors: process.stdout.isTTY && !opts.quiet,
+      });
+      if (streaming) {
+        process.stdout.write(streaming.end(output) + '\n');
+      }
+      if (printPatch) {
+        process.stdout.write((output.patches ?? []).map(p => p.diff).join(''));
       }
+      stagedTree?.cleanup();
 
-      // Write and exit
-      process.stdout.write(formattedOutput + '\n', () => {
+      // Exit once stdout has flushed
+      process.stdout.write('', () => {
         process.exit(exitCode);
       });
     } catch (error) {
+      stagedTree?.cleanup();
       const message = error instanceof Error ? error.message : String(error);
       console.error(`lintmesh: ${message}`);
       process.exit(2);
@@ -3,6 +3,15 @@ import path from 'node:path';
 import { detectAllLinters, type DetectionResult } from './utils/detect.js';
 import { CONFIG_FILES, CONFIG_DEFAULTS } from './config.js';
 
+/**
+ * Describe where a linter binary was found
+ */
+function describeBinSource(result: DetectionResult): string {
+  if (result.binSource === 'local') return 'node_modules';
+  if (result.binSource === 'parent') return 'parent node_modules';
+  return 'PATH';
+}
+
 /**
  * Generate JSONC config content from detection results
  */
@@ -24,7 +33,7 @@ function generateConfig(results: DetectionResult[]): string {
   enabledLinters.forEach((r, i) => {
     const isLast = i === enabledLinters.length - 1 && availableLinters.length === 0;
     const comma = isLast ? '' : ',';
-    const source = r.binSource === 'local' ? 'node_modules' : 'PATH';
+    const source = describeBinSource(r);
     const version = r.version ? ` v${r.version}` : '';
     const config = r.configPath ? `, config: ${path.basename(r.configPath)}` : '';
 
@@ -37,7 +46,7 @@ function generateConfig(results: DetectionResult[]): string {
   availableLinters.forEach((r, i) => {
     const isLast = i === availableLinters.length - 1;
     const comma = isLast ? '' : ',';
-    const source = r.binSource === 'local' ? 'node_modules' : 'PATH';
+    const source = describeBinSource(r);
     const version = r.version ? ` v${r.version}` : '';
 
     lines.push(`    // "${r.linterId}": { "enabled": false }  // available (${source}${version}) but no config`);
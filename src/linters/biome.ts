@@ -1,6 +1,31 @@
 import path from 'node:path';
-import type { Linter, LinterOptions, LinterResult, Issue, Severity } from './interface.js';
+import type { Linter, LinterOptions, LinterResult, Issue, Severity, Fix, Suggestion, ResolvedBin } from './interface.js';
+import type { Replacement } from '../types.js';
 import { exec } from '../utils/exec.js';
+import { missingBinMessage, resolveBin } from '../utils/bin.js';
+
+type BiomeMarkup = Array<{ elements: string[]; content: string }>;
+
+/**
+ * Code action edit: ops index into the dictionary, and long runs of
+ * unchanged lines are compressed to a line count
+ */
+interface BiomeTextEdit {
+  dictionary: string;
+  ops: Array<{
+    diffOp?: {
+      equal?: { range: [number, number] };
+      insert?: { range: [number, number] };
+      delete?: { range: [number, number] };
+    };
+    equalLines?: { line_count: number };
+  }>;
+}
+
+interface BiomeAdvice {
+  log?: [string, BiomeMarkup];
+  diff?: BiomeTextEdit;
+}
 
 interface BiomeDiagnostic {
   category: string;
@@ -13,6 +38,7 @@ interface BiomeDiagnostic {
     sourceCode: string;
   };
   tags: string[];
+  advices?: { advices: BiomeAdvice[] };
 }
 
 interface BiomeOutput {
@@ -50,26 +76,108 @@ function offsetToLineColumn(
   return { line, column };
 }
 
+/**
+ * Rebuild replacements on the original source from a Biome text edit.
+ * Returns undefined if the edit doesn't line up with the source.
+ */
+function textEditToFix(edit: BiomeTextEdit, sourceCode: string): Fix | undefined {
+  const source = Buffer.from(sourceCode, 'utf-8');
+  const dictionary = Buffer.from(edit.dictionary, 'utf-8');
+  const replacements: Replacement[] = [];
+  let offset = 0;
+
+  const replace = (startOffset: number, endOffset: number, text: string) => {
+    // Join a delete and an insert at the same spot into one replacement
+    const last = replacements[replacements.length - 1];
+    if (last && last.endOffset === startOffset) {
+      last.endOffset = endOffset;
+      last.text += text;
+    } else {
+      replacements.push({ startOffset, endOffset, text });
+    }
+  };
+
+  for (const op of edit.ops) {
+    if (op.equalLines) {
+      for (let i = 0; i < op.equalLines.line_count; i++) {
+        const newline = source.indexOf(0x0a, offset);
+        if (newline === -1) return undefined;
+        offset = newline + 1;
+      }
+      continue;
+    }
+
+    const { equal, insert, delete: del } = op.diffOp ?? {};
+    if (insert) {
+      replace(offset, offset, dictionary.subarray(insert.range[0], insert.range[1]).toString('utf-8'));
+      continue;
+    }
+
+    const range = (equal ?? del)?.range;
+    if (!range) return undefined;
+    const text = dictionary.subarray(range[0], range[1]);
+    if (!source.subarray(offset, offset + text.length).equals(text)) return undefined;
+    if (del) {
+      replace(offset, offset + text.length, '');
+    }
+    offset += text.length;
+  }
+
+  return replacements.length > 0 ? { replacements } : undefined;
+}
+
+/**
+ * Split Biome code actions into a safe fix and suggestions. Each diff advice
+ * follows a log advice describing it ("Safe fix: ..." or "Unsafe fix: ...").
+ */
+function parseCodeActions(diag: BiomeDiagnostic): { fix?: Fix; suggestions: Suggestion[] } {
+  const result: { fix?: Fix; suggestions: Suggestion[] } = { suggestions: [] };
+  let description = '';
+
+  for (const advice of diag.advices?.advices ?? []) {
+    if (advice.log) {
+      description = advice.log[1].map(part => part.content).join('').trim();
+    } else if (advice.diff) {
+      const fix = textEditToFix(advice.diff, diag.location.sourceCode);
+      if (fix && !result.fix && /^safe fix/i.test(description)) {
+        result.fix = fix;
+      } else {
+        result.suggestions.push({ description: description || 'Apply suggested fix', fix });
+      }
+      description = '';
+    }
+  }
+
+  return result;
+}
+
 export class BiomeAdapter implements Linter {
   readonly name = 'biome' as const;
 
-  private getBinPath(cwd: string): string {
-    return path.join(cwd, 'node_modules', '.bin', 'biome');
+  /**
+   * @param bin The config's `bin` for biome, if set
+   */
+  constructor(private bin?: string) {}
+
+  findBinary(cwd: string): ResolvedBin | null {
+    return resolveBin(['biome'], cwd, this.bin);
   }
 
-  async isAvailable(): Promise<boolean> {
-    const result = await exec(this.getBinPath(process.cwd()), ['--version'], {
-      timeout: 10000,
-      cwd: process.cwd(),
-    });
+  async isAvailable(cwd: string): Promise<boolean> {
+    const binary = this.findBinary(cwd);
+    if (!binary) {
+      // A configured bin that is missing should fail loudly, not be skipped
+      return this.bin !== undefined;
+    }
+    const result = await exec(binary.path, ['--version'], { timeout: 10000, cwd });
     return result.exitCode === 0;
   }
 
-  async getVersion(): Promise<string> {
-    const result = await exec(this.getBinPath(process.cwd()), ['--version'], {
-      timeout: 10000,
-      cwd: process.cwd(),
-    });
+  async getVersion(cwd: string): Promise<string> {
+    const binary = this.findBinary(cwd);
+    if (!binary) return 'not found';
+
+    const result = await exec(binary.path, ['--version'], { timeout: 10000, cwd });
     // Output is like "Version: 1.x.x" or just "1.x.x"
     const match = result.stdout.match(/(\d+\.\d+\.\d+)/);
     return match ? match[1] : result.stdout.trim();
@@ -77,10 +185,20 @@ export class BiomeAdapter implements Linter {
 
   async run(options: LinterOptions): Promise<LinterResult> {
     const startTime = Date.now();
+    const binary = this.findBinary(options.cwd);
+    if (!binary) {
+      return {
+        success: false,
+        error: new Error(missingBinMessage(['biome'], this.bin)),
+        issues: [],
+        filesProcessed: 0,
+        durationMs: Date.now() - startTime,
+      };
+    }
 
     const args = ['lint', '--reporter=json', ...options.files];
 
-    const result = await exec(this.getBinPath(options.cwd), args, {
+    const result = await exec(binary.path, args, {
       timeout: options.timeout,
       cwd: options.cwd,
     });
@@ -162,6 +280,14 @@ export class BiomeAdapter implements Linter {
         },
       };
 
+      const { fix, suggestions } = parseCodeActions(diag);
+      if (fix) {
+        issue.fix = fix;
+      }
+      if (suggestions.length > 0) {
+        issue.suggestions = suggestions;
+      }
+
       issues.push(issue);
     }
 
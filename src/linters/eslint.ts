@@ -1,6 +1,9 @@
+import { readFileSync } from 'node:fs';
 import path from 'node:path';
-import type { Linter, LinterOptions, LinterResult, Issue } from './interface.js';
+import type { Linter, LinterOptions, LinterResult, Issue, Fix, ResolvedBin } from './interface.js';
 import { exec } from '../utils/exec.js';
+import { missingBinMessage, resolveBin } from '../utils/bin.js';
+import { utf16IndexToByteOffset } from '../utils/offsets.js';
 
 interface ESLintMessage {
   ruleId: string | null;
@@ -23,36 +26,81 @@ interface ESLintMessage {
 interface ESLintFileResult {
   filePath: string;
   messages: ESLintMessage[];
+  /** Source text, present when the file has messages */
+  source?: string;
   errorCount: number;
   warningCount: number;
 }
 
+/**
+ * Convert an ESLint fix to a single-replacement Fix
+ * @param toBytes Maps ESLint's UTF-16 string indices to UTF-8 byte offsets
+ */
+function toFix(fix: { range: [number, number]; text: string }, toBytes: (index: number) => number): Fix {
+  return {
+    replacements: [{ startOffset: toBytes(fix.range[0]), endOffset: toBytes(fix.range[1]), text: fix.text }],
+  };
+}
+
+/**
+ * Offset converter for a file's fix ranges. The file on disk is what fixes
+ * are applied to, so it wins over the source ESLint reports. Without
+ * either, ranges are taken as they are.
+ */
+function byteOffsetsFor(file: ESLintFileResult): (index: number) => number {
+  let content = file.source;
+  try {
+    content = readFileSync(file.filePath, 'utf-8');
+  } catch {
+    // Fall back to ESLint's copy of the source
+  }
+  return content === undefined ? index => index : utf16IndexToByteOffset(content);
+}
+
 export class ESLintAdapter implements Linter {
   readonly name = 'eslint' as const;
+  readonly reportsFixes = true;
+
+  /**
+   * @param bin The config's `bin` for eslint, if set
+   */
+  constructor(private bin?: string) {}
 
-  private getBinPath(cwd: string): string {
-    return path.join(cwd, 'node_modules', '.bin', 'eslint');
+  findBinary(cwd: string): ResolvedBin | null {
+    return resolveBin(['eslint'], cwd, this.bin);
   }
 
-  async isAvailable(): Promise<boolean> {
-    const result = await exec(this.getBinPath(process.cwd()), ['--version'], {
-      timeout: 10000,
-      cwd: process.cwd(),
-    });
+  async isAvailable(cwd: string): Promise<boolean> {
+    const binary = this.findBinary(cwd);
+    if (!binary) {
+      // A configured bin that is missing should fail loudly, not be skipped
+      return this.bin !== undefined;
+    }
+    const result = await exec(binary.path, ['--version'], { timeout: 10000, cwd });
     return result.exitCode === 0;
   }
 
-  async getVersion(): Promise<string> {
-    const result = await exec(this.getBinPath(process.cwd()), ['--version'], {
-      timeout: 10000,
-      cwd: process.cwd(),
-    });
+  async getVersion(cwd: string): Promise<string> {
+    const binary = this.findBinary(cwd);
+    if (!binary) return 'not found';
+
+    const result = await exec(binary.path, ['--version'], { timeout: 10000, cwd });
     return result.stdout.trim().replace(/^v/, '');
   }
 
   async run(options: LinterOptions): Promise<LinterResult> {
     const startTime = Date.now();
-    const bin = this.getBinPath(options.cwd);
+    const binary = this.findBinary(options.cwd);
+    if (!binary) {
+      return {
+        success: false,
+        error: new Error(missingBinMessage(['eslint'], this.bin)),
+        issues: [],
+        filesProcessed: 0,
+        durationMs: Date.now() - startTime,
+      };
+    }
+    const bin = binary.path;
 
     const args = [
       '--format', 'json',
@@ -124,6 +172,9 @@ export class ESLintAdapter implements Linter {
     const issues: Issue[] = [];
 
     for (const file of results) {
+      const needsOffsets = file.messages.some(msg => msg.fix || msg.suggestions?.length);
+      const toBytes = needsOffsets ? byteOffsetsFor(file) : (index: number) => index;
+
       for (const msg of file.messages) {
         const issue: Issue = {
           path: path.relative(cwd, file.filePath),
@@ -137,29 +188,15 @@ export class ESLintAdapter implements Linter {
           source: 'eslint',
         };
 
-        // Add fix if available
+        // Only real fixes are safe to apply; suggestions may change behavior
         if (msg.fix) {
-          issue.fix = {
-            replacements: [
-              {
-                startOffset: msg.fix.range[0],
-                endOffset: msg.fix.range[1],
-                text: msg.fix.text,
-              },
-            ],
-          };
-        } else if (msg.suggestions && msg.suggestions.length > 0) {
-          // Use first suggestion if no primary fix
-          const suggestion = msg.suggestions[0];
-          issue.fix = {
-            replacements: [
-              {
-                startOffset: suggestion.fix.range[0],
-                endOffset: suggestion.fix.range[1],
-                text: suggestion.fix.text,
-              },
-            ],
-          };
+          issue.fix = toFix(msg.fix, toBytes);
+        }
+        if (msg.suggestions && msg.suggestions.length > 0) {
+          issue.suggestions = msg.suggestions.map(suggestion => ({
+            description: suggestion.desc,
+            fix: toFix(suggestion.fix, toBytes),
+          }));
         }
 
         issues.push(issue);
@@ -1 +1 @@
-export type { Linter, LinterOptions, LinterResult, LinterName, Issue, Severity } from '../types.js';
+export type { Linter, LinterOptions, LinterResult, LinterName, Issue, Severity, Fix, Suggestion, ResolvedBin } from '../types.js';
@@ -1,6 +1,7 @@
 import path from 'node:path';
-import type { Linter, LinterOptions, LinterResult, Issue, Severity } from './interface.js';
+import type { Linter, LinterOptions, LinterResult, Issue, Severity, ResolvedBin } from './interface.js';
 import { exec } from '../utils/exec.js';
+import { missingBinMessage, resolveBin } from '../utils/bin.js';
 
 interface OxlintLabel {
   label?: string;
@@ -35,23 +36,30 @@ interface OxlintOutput {
 export class OxlintAdapter implements Linter {
   readonly name = 'oxlint' as const;
 
-  private getBinPath(cwd: string): string {
-    return path.join(cwd, 'node_modules', '.bin', 'oxlint');
+  /**
+   * @param bin The config's `bin` for oxlint, if set
+   */
+  constructor(private bin?: string) {}
+
+  findBinary(cwd: string): ResolvedBin | null {
+    return resolveBin(['oxlint'], cwd, this.bin);
   }
 
-  async isAvailable(): Promise<boolean> {
-    const result = await exec(this.getBinPath(process.cwd()), ['--version'], {
-      timeout: 10000,
-      cwd: process.cwd(),
-    });
+  async isAvailable(cwd: string): Promise<boolean> {
+    const binary = this.findBinary(cwd);
+    if (!binary) {
+      // A configured bin that is missing should fail loudly, not be skipped
+      return this.bin !== undefined;
+    }
+    const result = await exec(binary.path, ['--version'], { timeout: 10000, cwd });
     return result.exitCode === 0;
   }
 
-  async getVersion(): Promise<string> {
-    const result = await exec(this.getBinPath(process.cwd()), ['--version'], {
-      timeout: 10000,
-      cwd: process.cwd(),
-    });
+  async getVersion(cwd: string): Promise<string> {
+    const binary = this.findBinary(cwd);
+    if (!binary) return 'not found';
+
+    const result = await exec(binary.path, ['--version'], { timeout: 10000, cwd });
     // Output is like "oxlint version 0.x.x"
     const match = result.stdout.match(/(\d+\.\d+\.\d+)/);
     return match ? match[1] : result.stdout.trim();
@@ -59,7 +67,17 @@ export class OxlintAdapter implements Linter {
 
   async run(options: LinterOptions): Promise<LinterResult> {
     const startTime = Date.now();
-    const bin = this.getBinPath(options.cwd);
+    const binary = this.findBinary(options.cwd);
+    if (!binary) {
+      return {
+        success: false,
+        error: new Error(missingBinMessage(['oxlint'], this.bin)),
+        issues: [],
+        filesProcessed: 0,
+        durationMs: Date.now() - startTime,
+      };
+    }
+    const bin = binary.path;
 
     const args = [
       '--format', 'json',
@@ -154,6 +172,11 @@ export class OxlintAdapter implements Linter {
         },
       };
 
+      // oxlint only describes how to fix the issue, without edits
+      if (diag.help) {
+        issue.suggestions = [{ description: diag.help }];
+      }
+
       issues.push(issue);
     }
 
@@ -1,7 +1,8 @@
 import { parse, type GrammarItem } from '@aivenio/tsc-output-parser';
 import path from 'node:path';
-import type { Linter, LinterOptions, LinterResult, Issue } from './interface.js';
+import type { Linter, LinterOptions, LinterResult, Issue, ResolvedBin } from './interface.js';
 import { exec } from '../utils/exec.js';
+import { missingBinMessage, resolveBin } from '../utils/bin.js';
 
 function isGlobPattern(pattern: string): boolean {
   return /[*?{[]/.test(pattern);
@@ -34,61 +35,47 @@ export function filterByPatterns(issues: Issue[], patterns: string[]): Issue[] {
 export class TscAdapter implements Linter {
   readonly name = 'tsc' as const;
 
-  private getTsgoPath(cwd: string): string {
-    return path.join(cwd, 'node_modules', '.bin', 'tsgo');
-  }
+  /**
+   * @param bin The config's `bin` for tsc (tsgo or tsc), if set
+   */
+  constructor(private bin?: string) {}
 
-  private getTscPath(cwd: string): string {
-    return path.join(cwd, 'node_modules', '.bin', 'tsc');
+  /** tsgo is preferred over tsc wherever both are found */
+  findBinary(cwd: string): ResolvedBin | null {
+    return resolveBin(['tsgo', 'tsc'], cwd, this.bin);
   }
 
-  private async findBinary(cwd: string): Promise<{ bin: string; isTsgo: boolean } | null> {
-    // Try tsgo first
-    const tsgoResult = await exec(this.getTsgoPath(cwd), ['--version'], {
-      timeout: 10000,
-      cwd,
-    });
-    if (tsgoResult.exitCode === 0) {
-      return { bin: this.getTsgoPath(cwd), isTsgo: true };
-    }
-
-    // Fall back to tsc
-    const tscResult = await exec(this.getTscPath(cwd), ['--version'], {
-      timeout: 10000,
-      cwd,
-    });
-    if (tscResult.exitCode === 0) {
-      return { bin: this.getTscPath(cwd), isTsgo: false };
-    }
-
-    return null;
+  private isTsgo(binary: ResolvedBin): boolean {
+    return path.basename(binary.path).startsWith('tsgo');
   }
 
-  async isAvailable(): Promise<boolean> {
-    const binary = await this.findBinary(process.cwd());
-    return binary !== null;
+  async isAvailable(cwd: string): Promise<boolean> {
+    const binary = this.findBinary(cwd);
+    if (!binary) {
+      // A configured bin that is missing should fail loudly, not be skipped
+      return this.bin !== undefined;
+    }
+    const result = await exec(binary.path, ['--version'], { timeout: 10000, cwd });
+    return result.exitCode === 0;
   }
 
-  async getVersion(): Promise<string> {
-    const binary = await this.findBinary(process.cwd());
+  async getVersion(cwd: string): Promise<string> {
+    const binary = this.findBinary(cwd);
     if (!binary) return 'not found';
 
-    const result = await exec(binary.bin, ['--version'], {
-      timeout: 10000,
-      cwd: process.cwd(),
-    });
+    const result = await exec(binary.path, ['--version'], { timeout: 10000, cwd });
     const version = result.stdout.trim();
-    return binary.isTsgo ? `tsgo ${version}` : version;
+    return this.isTsgo(binary) ? `tsgo ${version}` : version;
   }
 
   async run(options: LinterOptions): Promise<LinterResult> {
     const startTime = Date.now();
 
-    const binary = await this.findBinary(options.cwd);
+    const binary = this.findBinary(options.cwd);
     if (!binary) {
       return {
         success: false,
-        error: new Error('Neither tsgo nor tsc found in node_modules/.bin'),
+        error: new Error(missingBinMessage(['tsgo', 'tsc'], this.bin)),
         issues: [],
         filesProcessed: 0,
         durationMs: Date.now() - startTime,
@@ -99,9 +86,9 @@ export class TscAdapter implements Linter {
     const args = ['--noEmit', '--pretty', 'false'];
 
     if (options.verbose) {
-      console.error(`lintmesh: [tsc] ${binary.bin} ${args.join(' ')}`);
+      console.error(`lintmesh: [tsc] ${binary.path} ${args.join(' ')}`);
     }
-    const result = await exec(binary.bin, args, {
+    const result = await exec(binary.path, args, {
       timeout: options.timeout,
       cwd: options.cwd,
     });
@@ -0,0 +1,75 @@
+import type { Issue, LinterName, Severity } from './types.js';
+import { ruleKey } from './rules.js';
+
+const SEVERITY_ORDER: Severity[] = ['info', 'warning', 'error'];
+
+/**
+ * Whether two issues' ranges share at least one position (inclusive)
+ */
+function rangesOverlap(a: Issue, b: Issue): boolean {
+  const before = (line1: number, col1: number, line2: number, col2: number) =>
+    line1 < line2 || (line1 === line2 && col1 <= col2);
+  return before(a.line, a.column, b.endLine, b.endColumn)
+    && before(b.line, b.column, a.endLine, a.endColumn);
+}
+
+/**
+ * Combine a group of duplicate issues into one, taking the location, rule and
+ * message from the most trusted linter. Severity is the highest reported, so
+ * merging never lowers the exit code.
+ */
+function combine(group: Issue[], rank: (source: LinterName) => number): Issue {
+  const ordered = [...group].sort((a, b) => rank(a.source) - rank(b.source));
+  const [primary] = ordered;
+
+  const severity = ordered.reduce<Severity>(
+    (max, issue) => SEVERITY_ORDER.indexOf(issue.severity) > SEVERITY_ORDER.indexOf(max) ? issue.severity : max,
+    primary.severity
+  );
+  const fix = ordered.find(issue => issue.fix)?.fix;
+  const suggestions = ordered.find(issue => issue.suggestions?.length)?.suggestions;
+  const meta = ordered.find(issue => issue.meta)?.meta;
+
+  const merged: Issue = { ...primary, severity, sources: ordered.map(issue => issue.source) };
+  if (fix) merged.fix = fix;
+  if (suggestions) merged.suggestions = suggestions;
+  if (meta) merged.meta = meta;
+  return merged;
+}
+
+/**
+ * Merge issues reported by different linters for the same problem: same path,
+ * overlapping range and same canonicalRuleId. Merged issues list every
+ * reporting linter in `sources`. Input order is preserved, with each merged
+ * issue placed where its first duplicate appeared.
+ * @param priority Linters from most to least trusted; others rank last
+ */
+export function mergeIssues(issues: Issue[], priority: LinterName[]): Issue[] {
+  const rank = (source: LinterName) => {
+    const index = priority.indexOf(source);
+    return index === -1 ? priority.length : index;
+  };
+
+  const groups: Issue[][] = [];
+  const candidates = new Map<string, Issue[][]>();
+
+  for (const issue of issues) {
+    const key = `${issue.path}\0${issue.canonicalRuleId ?? ruleKey(issue.ruleId)}`;
+    const sameRule = candidates.get(key) ?? [];
+    candidates.set(key, sameRule);
+
+    // Join the first group this linter isn't already part of that overlaps
+    const group = sameRule.find(g =>
+      g.every(other => other.source !== issue.source) && g.some(other => rangesOverlap(other, issue))
+    );
+    if (group) {
+      group.push(issue);
+    } else {
+      const created = [issue];
+      sameRule.push(created);
+      groups.push(created);
+    }
+  }
+
+  return groups.map(group => (group.length === 1 ? group[0] : combine(group, rank)));
+}
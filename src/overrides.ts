@@ -0,0 +1,198 @@
+import fg from 'fast-glob';
+import path from 'node:path';
+import { RuleSeverities, type RuleSetting } from './rules.js';
+import { DEFAULT_IGNORE } from './utils/files.js';
+import type { CliOptions, LinterName, Severity } from './types.js';
+
+/**
+ * Linter settings an override can change
+ */
+export interface LinterOverride {
+  /** Run this linter on matching files */
+  enabled?: boolean;
+  /** Replaces the linter's extra arguments for matching files */
+  args?: string[];
+}
+
+/**
+ * Settings for files matching `files` but not `excludeFiles`
+ */
+export interface Override {
+  /** Globs relative to the directory of the config file, made absolute when it is loaded */
+  files: string[];
+  excludeFiles?: string[];
+  linters?: Partial<Record<LinterName, LinterOverride>>;
+  /** Merged over the top-level rules map, key by key */
+  rules?: Record<string, RuleSetting>;
+  failOn?: Severity;
+}
+
+/**
+ * Effective linter settings for a file
+ */
+export interface EffectiveLinterConfig {
+  enabled: boolean;
+  args?: string[];
+}
+
+/**
+ * Per-file settings from a config file in a subdirectory, for files below it
+ */
+export interface ConfigScope {
+  /** Directory of the config file, relative to cwd */
+  dir: string;
+  /** Linters for files in the scope; linters not listed are off */
+  linters: Partial<Record<LinterName, EffectiveLinterConfig>>;
+  rules?: Record<string, RuleSetting>;
+  failOn: Severity;
+  overrides?: Override[];
+}
+
+/**
+ * Config overrides with their globs resolved to files. Overrides apply in
+ * order, so a later match wins over an earlier one (like ESLint's legacy
+ * overrides).
+ */
+export class OverrideSet {
+  private severityCache = new Map<string, RuleSeverities>();
+
+  private constructor(
+    private overrides: Override[],
+    /** Paths relative to cwd matched by each override */
+    private matches: Set<string>[],
+    private baseRules: Record<string, RuleSetting>
+  ) {}
+
+  /**
+   * Resolve each override's globs to the files it applies to
+   * @param dir Directory the globs are relative to, relative to cwd (default: cwd)
+   */
+  static async resolve(
+    overrides: Override[] = [],
+    cwd: string,
+    baseRules: Record<string, RuleSetting> = {},
+    dir = ''
+  ): Promise<OverrideSet> {
+    const base = path.resolve(cwd, dir);
+    const matches = await Promise.all(
+      overrides.map(async override => {
+        const files = await fg(override.files, {
+          cwd: base,
+          ignore: [...DEFAULT_IGNORE, ...(override.excludeFiles ?? [])],
+          onlyFiles: true,
+        });
+        // Globs from configs are absolute, so matches are too
+        return new Set(files.map(file => path.relative(cwd, path.resolve(base, file))));
+      })
+    );
+    return new OverrideSet(overrides, matches, baseRules);
+  }
+
+  /** Overrides that apply to a path relative to cwd, in order */
+  private matching(filePath: string): number[] {
+    const indices: number[] = [];
+    this.matches.forEach((files, index) => {
+      if (files.has(filePath)) indices.push(index);
+    });
+    return indices;
+  }
+
+  /**
+   * Whether a linter runs on a file, and with which extra arguments
+   */
+  linterConfig(name: LinterName, filePath: string, base: EffectiveLinterConfig): EffectiveLinterConfig {
+    let config = base;
+    for (const index of this.matching(filePath)) {
+      const override = this.overrides[index].linters?.[name];
+      if (override) {
+        config = {
+          enabled: override.enabled ?? config.enabled,
+          args: override.args ?? config.args,
+        };
+      }
+    }
+    return config;
+  }
+
+  /**
+   * Severity overrides for issues in a file: the top-level rules map with
+   * matching overrides' rules merged over it
+   */
+  severities(filePath: string): RuleSeverities {
+    const indices = this.matching(filePath);
+    const key = indices.join(',');
+    let severities = this.severityCache.get(key);
+    if (!severities) {
+      const rules = indices.reduce(
+        (merged, index) => ({ ...merged, ...this.overrides[index].rules }),
+        this.baseRules
+      );
+      severities = new RuleSeverities(rules);
+      this.severityCache.set(key, severities);
+    }
+    return severities;
+  }
+
+  /**
+   * Exit code threshold for issues in a file
+   */
+  failOn(filePath: string, base: Severity): Severity {
+    return this.matching(filePath).reduce((failOn, index) => this.overrides[index].failOn ?? failOn, base);
+  }
+}
+
+/**
+ * Settings for each file: those of the nearest config file, which is either
+ * the run's config (options) or a nested one (options.scopes)
+ */
+export class FileSettings {
+  private constructor(
+    private root: OverrideSet,
+    /** Deepest directories first, so the first match is the nearest */
+    private scopes: Array<{ scope: ConfigScope; overrides: OverrideSet }>
+  ) {}
+
+  static async resolve(
+    options: Pick<CliOptions, 'cwd' | 'configDir' | 'overrides' | 'rules' | 'scopes'>
+  ): Promise<FileSettings> {
+    const root = await OverrideSet.resolve(options.overrides, options.cwd, options.rules, options.configDir);
+    const scopes = await Promise.all((options.scopes ?? []).map(async scope => ({
+      scope,
+      overrides: await OverrideSet.resolve(scope.overrides, options.cwd, scope.rules, scope.dir),
+    })));
+    scopes.sort((a, b) => b.scope.dir.length - a.scope.dir.length);
+    return new FileSettings(root, scopes);
+  }
+
+  /** Nearest nested config for a path relative to cwd */
+  private scopeFor(filePath: string) {
+    return this.scopes.find(({ scope }) => filePath.startsWith(scope.dir + path.sep));
+  }
+
+  /**
+   * Whether a linter runs on a file, and with which extra arguments
+   * @param base The run's settings for the linter
+   */
+  linterConfig(name: LinterName, filePath: string, base: EffectiveLinterConfig): EffectiveLinterConfig {
+    const nested = this.scopeFor(filePath);
+    return nested
+      ? nested.overrides.linterConfig(name, filePath, nested.scope.linters[name] ?? { enabled: false })
+      : this.root.linterConfig(name, filePath, base);
+  }
+
+  /**
+   * Severity overrides for issues in a file
+   */
+  severities(filePath: string): RuleSeverities {
+    return (this.scopeFor(filePath)?.overrides ?? this.root).severities(filePath);
+  }
+
+  /**
+   * Exit code threshold for issues in a file
+   * @param base The run's threshold
+   */
+  failOn(filePath: string, base: Severity): Severity {
+    const nested = this.scopeFor(filePath);
+    return nested ? nested.overrides.failOn(filePath, nested.scope.failOn) : this.root.failOn(filePath, base);
+  }
+}
@@ -0,0 +1,27 @@
+import type { VibelintOutput } from '../types.js';
+import { groupByFile } from '../utils/group.js';
+import { XML_DECLARATION, xmlAttributes } from '../utils/xml.js';
+
+/**
+ * Format output as Checkstyle XML (one <file> per path, one <error> per issue)
+ */
+export function formatCheckstyle(output: VibelintOutput): string {
+  const lines: string[] = [XML_DECLARATION, '<checkstyle version="4.3">'];
+
+  for (const [filePath, issues] of groupByFile(output.issues)) {
+    lines.push(`  <file${xmlAttributes({ name: filePath })}>`);
+    for (const issue of issues) {
+      lines.push(`    <error${xmlAttributes({
+        line: issue.line,
+        column: issue.column,
+        severity: issue.severity,
+        message: issue.message,
+        source: issue.ruleId,
+      })}/>`);
+    }
+    lines.push('  </file>');
+  }
+
+  lines.push('</checkstyle>');
+  return lines.join('\n');
+}
@@ -0,0 +1,29 @@
+import type { VibelintOutput } from '../types.js';
+import { createColors } from '../utils/colors.js';
+
+/**
+ * Format output in compact form: path:line:col severity ruleId: message
+ */
+export function formatCompact(output: VibelintOutput, useColors = false): string {
+  const c = createColors(useColors);
+
+  const lines: string[] = [];
+  for (const issue of output.issues) {
+    const loc = c.cyan(`${issue.path}:${issue.line}:${issue.column}`);
+    const sev = issue.severity === 'error' ? c.red(issue.severity) : c.yellow(issue.severity);
+    const rule = c.dim(issue.ruleId);
+    lines.push(`${loc} ${sev} ${rule}: ${issue.message}`);
+  }
+  // Add summary line
+  const { errors, warnings, suppressed } = output.summary;
+  const suppressedNote = suppressed ? c.dim(` (${suppressed} suppressed by baseline)`) : '';
+  if (output.summary.total > 0) {
+    lines.push('');
+    const errText = errors > 0 ? c.red(`${errors} errors`) : `${errors} errors`;
+    const warnText = warnings > 0 ? c.yellow(`${warnings} warnings`) : `${warnings} warnings`;
+    lines.push(`${output.summary.total} issues (${errText}, ${warnText})${suppressedNote}`);
+  } else {
+    lines.push(c.cyan('No issues found') + suppressedNote);
+  }
+  return lines.join('\n');
+}
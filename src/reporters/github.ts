@@ -0,0 +1,144 @@
+import { appendFileSync } from 'node:fs';
+import { isDirectiveIssue } from '../suppressions.js';
+import type { Issue, Severity, VibelintOutput } from '../types.js';
+import { DIRECTIVE_SOURCE, issuesForRun, runLabel } from '../utils/group.js';
+import { escapeCell } from '../utils/markdown.js';
+
+type CommandLevel = 'error' | 'warning' | 'notice';
+
+const COMMAND_LEVELS: Record<Severity, CommandLevel> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'notice',
+};
+
+/**
+ * Escape a workflow command message (the part after `::`)
+ */
+function escapeData(value: string): string {
+  return value
+    .replace(/%/g, '%25')
+    .replace(/\r/g, '%0D')
+    .replace(/\n/g, '%0A');
+}
+
+/**
+ * Escape a workflow command property value (e.g. file=, title=)
+ */
+function escapeProperty(value: string): string {
+  return escapeData(value)
+    .replace(/:/g, '%3A')
+    .replace(/,/g, '%2C');
+}
+
+function formatCommand(level: CommandLevel, properties: Record<string, string | number>, message: string): string {
+  const props = Object.entries(properties)
+    .map(([key, value]) => `${key}=${escapeProperty(String(value))}`)
+    .join(',');
+  return `::${level} ${props}::${escapeData(message)}`;
+}
+
+function formatIssue(issue: Issue): string {
+  return formatCommand(
+    COMMAND_LEVELS[issue.severity],
+    {
+      file: issue.path,
+      line: issue.line,
+      endLine: issue.endLine,
+      col: issue.column,
+      endColumn: issue.endColumn,
+      title: issue.ruleId,
+    },
+    issue.message
+  );
+}
+
+/**
+ * Format output as GitHub Actions workflow commands (one annotation per issue)
+ */
+export function formatGithub(output: VibelintOutput): string {
+  const lines = output.issues.map(formatIssue);
+
+  // Surface linter failures too, otherwise they only show up in the summary
+  for (const linter of output.linters) {
+    if (!linter.success) {
+      lines.push(formatCommand('error', { title: `lintmesh/${runLabel(linter)}` }, linter.error ?? 'Linter failed'));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Build the Markdown step summary: issue counts per linter and per rule
+ */
+export function buildStepSummary(output: VibelintOutput): string {
+  const { summary } = output;
+  const lines: string[] = ['## lintmesh', ''];
+
+  if (summary.total === 0) {
+    lines.push('No issues found.');
+  } else {
+    lines.push(`${summary.total} issues (${summary.errors} errors, ${summary.warnings} warnings, ${summary.info} info)`);
+  }
+  lines.push('');
+
+  lines.push('| Linter | Version | Status | Errors | Warnings | Info | Duration |');
+  lines.push('|--------|---------|--------|-------:|---------:|-----:|---------:|');
+  for (const linter of output.linters) {
+    const issues = issuesForRun(output.issues, linter);
+    const count = (severity: Severity) => issues.filter(i => i.severity === severity).length;
+    const status = linter.success ? 'ok' : `failed: ${escapeCell(linter.error ?? 'unknown error')}`;
+    lines.push(
+      `| ${escapeCell(runLabel(linter))} | ${escapeCell(linter.version)} | ${status} | ${count('error')} | ${count('warning')} | ${count('info')} | ${linter.durationMs}ms |`
+    );
+  }
+
+  // Issues about suppression comments come from lintmesh, not a linter
+  const directiveIssues = output.issues.filter(isDirectiveIssue);
+  if (directiveIssues.length > 0) {
+    const count = (severity: Severity) => directiveIssues.filter(i => i.severity === severity).length;
+    lines.push(`| ${DIRECTIVE_SOURCE} | - | ok | ${count('error')} | ${count('warning')} | ${count('info')} | - |`);
+  }
+
+  if (output.issues.length > 0) {
+    const byRule = new Map<string, { errors: number; warnings: number; info: number }>();
+    for (const issue of output.issues) {
+      const counts = byRule.get(issue.ruleId) ?? { errors: 0, warnings: 0, info: 0 };
+      if (issue.severity === 'error') counts.errors++;
+      else if (issue.severity === 'warning') counts.warnings++;
+      else counts.info++;
+      byRule.set(issue.ruleId, counts);
+    }
+
+    // Noisiest rules first
+    const rows = [...byRule.entries()].sort((a, b) => {
+      const totalA = a[1].errors + a[1].warnings + a[1].info;
+      const totalB = b[1].errors + b[1].warnings + b[1].info;
+      return totalB - totalA || a[0].localeCompare(b[0]);
+    });
+
+    lines.push('');
+    lines.push('| Rule | Errors | Warnings | Info |');
+    lines.push('|------|-------:|---------:|-----:|');
+    for (const [ruleId, counts] of rows) {
+      lines.push(`| \`${escapeCell(ruleId)}\` | ${counts.errors} | ${counts.warnings} | ${counts.info} |`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Append the step summary to the file named by $GITHUB_STEP_SUMMARY.
+ * Does nothing when no path is given (i.e. outside GitHub Actions).
+ * @returns Whether a summary was written
+ */
+export function writeStepSummary(
+  output: VibelintOutput,
+  summaryPath: string | undefined
+): boolean {
+  if (!summaryPath) return false;
+  appendFileSync(summaryPath, buildStepSummary(output), 'utf-8');
+  return true;
+}
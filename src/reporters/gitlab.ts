@@ -0,0 +1,67 @@
+import type { Severity, VibelintOutput } from '../types.js';
+import { computeFingerprints } from '../utils/fingerprint.js';
+import { issueSource } from '../utils/group.js';
+import type { GitlabSeverity } from '../config.js';
+
+/**
+ * A single entry in a GitLab Code Quality report (Code Climate subset)
+ * https://docs.gitlab.com/ci/testing/code_quality/#code-quality-report-format
+ */
+export interface GitlabCodeQualityIssue {
+  type: 'issue';
+  description: string;
+  check_name: string;
+  engine_name: string;
+  fingerprint: string;
+  severity: GitlabSeverity;
+  location: {
+    path: string;
+    lines: { begin: number; end: number };
+  };
+}
+
+export type GitlabSeverityMap = Record<Severity, GitlabSeverity>;
+
+export const DEFAULT_GITLAB_SEVERITY_MAP: GitlabSeverityMap = {
+  error: 'major',
+  warning: 'minor',
+  info: 'info',
+};
+
+/**
+ * Convert issues to GitLab Code Quality entries.
+ * Fingerprints ignore line numbers so the widget can track issues across
+ * unrelated edits.
+ */
+export function buildGitlabReport(
+  output: VibelintOutput,
+  severityMap: Partial<GitlabSeverityMap> = {}
+): GitlabCodeQualityIssue[] {
+  const mapping = { ...DEFAULT_GITLAB_SEVERITY_MAP, ...severityMap };
+  const fingerprints = computeFingerprints(output.issues);
+
+  return output.issues.map((issue, i) => ({
+    type: 'issue',
+    description: issue.message,
+    check_name: issue.ruleId,
+    engine_name: issueSource(issue),
+    fingerprint: fingerprints[i],
+    severity: mapping[issue.severity],
+    location: {
+      path: issue.path,
+      lines: { begin: issue.line, end: issue.endLine },
+    },
+  }));
+}
+
+/**
+ * Format output as a GitLab Code Quality JSON report
+ */
+export function formatGitlab(
+  output: VibelintOutput,
+  severityMap?: Partial<GitlabSeverityMap>,
+  pretty = false
+): string {
+  const report = buildGitlabReport(output, severityMap);
+  return pretty ? JSON.stringify(report, null, 2) : JSON.stringify(report);
+}
@@ -0,0 +1,182 @@
+import { createWriteStream, mkdirSync } from 'node:fs';
+import { finished } from 'node:stream/promises';
+import path from 'node:path';
+import type { Reporter, ReporterContext, VibelintOutput } from '../types.js';
+import type { LinterCompletion } from '../runner.js';
+import {
+  REPORTER_NAMES,
+  type BuiltinReporterConfig,
+  type ReporterConfig,
+  type ReporterName,
+} from '../config.js';
+import { formatCompact } from './compact.js';
+import { formatStylish } from './stylish.js';
+import { formatJson } from './json.js';
+import { formatNdjson, formatNdjsonEnd, formatNdjsonLinter } from './ndjson.js';
+import { formatMarkdown } from './markdown.js';
+import { formatRdjson, formatRdjsonl } from './rdjson.js';
+import { formatSarif } from './sarif.js';
+import { formatGithub, writeStepSummary } from './github.js';
+import { formatJunit } from './junit.js';
+import { formatCheckstyle } from './checkstyle.js';
+import { formatGitlab } from './gitlab.js';
+import { loadCustomReporter } from './loader.js';
+
+/**
+ * Built-in reporters keyed by format name
+ */
+export const REPORTERS: Record<ReporterName, Reporter> = {
+  compact: (output, ctx) => formatCompact(output, ctx.colors),
+  stylish: (output, ctx) => formatStylish(output, { cwd: ctx.cwd, colors: ctx.colors }),
+  json: (output, ctx) => formatJson(output, ctx.pretty),
+  ndjson: (output) => formatNdjson(output),
+  markdown: (output, ctx) => formatMarkdown(output, { maxIssues: ctx.config.markdown?.maxIssues }),
+  rdjson: (output, ctx) => formatRdjson(output, ctx.pretty),
+  rdjsonl: (output) => formatRdjsonl(output),
+  sarif: (output, ctx) => formatSarif(output, ctx.pretty),
+  github: (output, ctx) => {
+    writeStepSummary(output, ctx.env.GITHUB_STEP_SUMMARY);
+    return formatGithub(output);
+  },
+  junit: (output) => formatJunit(output),
+  checkstyle: (output) => formatCheckstyle(output),
+  gitlab: (output, ctx) => formatGitlab(output, ctx.config.gitlab?.severity, ctx.pretty),
+};
+
+/**
+ * Reporter that can write incrementally while linters are still running
+ */
+export interface StreamingReporter {
+  /** Text to write as soon as a linter finishes */
+  linter(completion: LinterCompletion): string;
+  /** Text to write once all linters have finished */
+  end(output: VibelintOutput): string;
+}
+
+/**
+ * Streaming variants of built-in reporters, used when they write to stdout
+ */
+export const STREAMING_REPORTERS: Partial<Record<ReporterName, StreamingReporter>> = {
+  ndjson: {
+    linter: formatNdjsonLinter,
+    end: formatNdjsonEnd,
+  },
+};
+
+function isReporterName(name: string): name is ReporterName {
+  return (REPORTER_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * Human-readable name of a reporter config entry
+ */
+function reporterLabel(config: ReporterConfig): string {
+  return 'format' in config ? config.format : config.module;
+}
+
+/**
+ * Parse a `--format <name>[:<path>]` value
+ */
+export function parseReporterSpec(spec: string): BuiltinReporterConfig {
+  const sep = spec.indexOf(':');
+  const format = (sep === -1 ? spec : spec.slice(0, sep)).trim().toLowerCase();
+  const output = sep === -1 ? undefined : spec.slice(sep + 1).trim();
+
+  if (!isReporterName(format)) {
+    throw new Error(`Invalid --format value: ${format}. Valid: ${REPORTER_NAMES.join(', ')}`);
+  }
+  if (output === '') {
+    throw new Error(`Missing output path in --format ${spec}`);
+  }
+
+  return { format, output };
+}
+
+/**
+ * Decide which reporters to run: CLI --format values win over config
+ * `reporters`, falling back to compact on stdout. --json is shorthand for
+ * --format json.
+ */
+export function resolveReporters(
+  cliSpecs: string[],
+  json: boolean,
+  configReporters: ReporterConfig[] = []
+): ReporterConfig[] {
+  const reporters: ReporterConfig[] = cliSpecs.map(parseReporterSpec);
+  if (json) {
+    reporters.push({ format: 'json' });
+  }
+
+  const resolved = reporters.length > 0
+    ? reporters
+    : configReporters.length > 0 ? configReporters : [{ format: 'compact' as const }];
+
+  const stdoutReporters = resolved.filter(r => !r.output);
+  if (stdoutReporters.length > 1) {
+    throw new Error(
+      `Only one reporter can write to stdout (got ${stdoutReporters.map(reporterLabel).join(', ')}). Use --format <name>:<path> for the others.`
+    );
+  }
+
+  return resolved;
+}
+
+/**
+ * A reporter config entry paired with its reporter function
+ */
+export interface LoadedReporter {
+  config: ReporterConfig;
+  reporter: Reporter;
+}
+
+/**
+ * Look up built-in reporters and import custom reporter modules.
+ * @param baseDir Directory custom module paths are relative to (the config file's)
+ */
+export async function loadReporters(configs: ReporterConfig[], baseDir: string): Promise<LoadedReporter[]> {
+  return Promise.all(
+    configs.map(async config => ({
+      config,
+      reporter: 'format' in config
+        ? REPORTERS[config.format]
+        : await loadCustomReporter(config.module, baseDir),
+    }))
+  );
+}
+
+/**
+ * Run each reporter against its destination: the output file, or stdout.
+ * Reporters either return text (written for them) or write to ctx.stream.
+ */
+export async function writeReports(
+  output: VibelintOutput,
+  reporters: LoadedReporter[],
+  ctx: Omit<ReporterContext, 'colors' | 'stream' | 'options'> & {
+    stdout: NodeJS.WritableStream;
+    stdoutColors: boolean;
+  }
+): Promise<void> {
+  const { stdout, stdoutColors, ...baseCtx } = ctx;
+
+  for (const { config, reporter } of reporters) {
+    const options = 'module' in config ? config.options : undefined;
+
+    if (config.output) {
+      const filePath = path.resolve(ctx.cwd, config.output);
+      mkdirSync(path.dirname(filePath), { recursive: true });
+      const stream = createWriteStream(filePath, 'utf-8');
+
+      const text = await reporter(output, { ...baseCtx, colors: false, stream, options });
+      if (typeof text === 'string') {
+        stream.write(text + '\n');
+      }
+      stream.end();
+      await finished(stream);
+    } else {
+      const text = await reporter(output, { ...baseCtx, colors: stdoutColors, stream: stdout, options });
+      if (typeof text === 'string') {
+        stdout.write(text + '\n');
+      }
+    }
+  }
+}
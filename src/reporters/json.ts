@@ -0,0 +1,8 @@
+import type { VibelintOutput } from '../types.js';
+
+/**
+ * Format output as full JSON
+ */
+export function formatJson(output: VibelintOutput, pretty = false): string {
+  return pretty ? JSON.stringify(output, null, 2) : JSON.stringify(output);
+}
@@ -0,0 +1,123 @@
+import { isDirectiveIssue } from '../suppressions.js';
+import type { Issue, LinterRun, VibelintOutput } from '../types.js';
+import { DIRECTIVE_SOURCE, groupByFile, issuesForRun, runLabel } from '../utils/group.js';
+import { XML_DECLARATION, escapeXml, xmlAttributes } from '../utils/xml.js';
+
+function toSeconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+function formatFailure(issue: Issue): string {
+  const location = `${issue.path}:${issue.line}:${issue.column}`;
+  const body = `${location} ${issue.severity} ${issue.ruleId}: ${issue.message}`;
+  return `      <failure${xmlAttributes({
+    message: issue.message,
+    type: issue.ruleId,
+  })}>${escapeXml(body)}</failure>`;
+}
+
+/**
+ * Build a <testsuite> for a single linter run.
+ * A failed linter gets an extra testcase carrying an <error>, so it shows up
+ * as an errored suite instead of silently passing with zero tests.
+ */
+function formatSuite(linter: LinterRun, issues: Issue[], timestamp: string): string[] {
+  const files = groupByFile(issues);
+  const errors = linter.success ? 0 : 1;
+  const tests = files.size + errors;
+
+  const lines: string[] = [];
+  lines.push(`  <testsuite${xmlAttributes({
+    name: runLabel(linter),
+    tests,
+    failures: issues.length,
+    errors,
+    skipped: 0,
+    time: toSeconds(linter.durationMs),
+    timestamp,
+  })}>`);
+
+  lines.push('    <properties>');
+  lines.push(`      <property${xmlAttributes({ name: 'version', value: linter.version })}/>`);
+  lines.push(`      <property${xmlAttributes({ name: 'filesProcessed', value: linter.filesProcessed })}/>`);
+  lines.push('    </properties>');
+
+  if (!linter.success) {
+    const message = linter.error ?? 'Linter failed';
+    lines.push(`    <testcase${xmlAttributes({ name: `${linter.name} execution`, classname: linter.name, time: toSeconds(linter.durationMs) })}>`);
+    lines.push(`      <error${xmlAttributes({ message, type: 'LinterError' })}>${escapeXml(message)}</error>`);
+    lines.push('    </testcase>');
+  }
+
+  lines.push(...formatTestcases(files, linter.name));
+  lines.push('  </testsuite>');
+  return lines;
+}
+
+/**
+ * One <testcase> per file, one failure per issue
+ */
+function formatTestcases(files: Map<string, Issue[]>, classname: string): string[] {
+  const lines: string[] = [];
+  for (const [filePath, fileIssues] of files) {
+    lines.push(`    <testcase${xmlAttributes({ name: filePath, classname, file: filePath })}>`);
+    for (const issue of fileIssues) {
+      lines.push(formatFailure(issue));
+    }
+    lines.push('    </testcase>');
+  }
+  return lines;
+}
+
+/**
+ * Build a <testsuite> for lintmesh's own issues about suppression comments
+ */
+function formatDirectiveSuite(issues: Issue[], timestamp: string): string[] {
+  const files = groupByFile(issues);
+  return [
+    `  <testsuite${xmlAttributes({
+      name: DIRECTIVE_SOURCE,
+      tests: files.size,
+      failures: issues.length,
+      errors: 0,
+      skipped: 0,
+      time: toSeconds(0),
+      timestamp,
+    })}>`,
+    ...formatTestcases(files, DIRECTIVE_SOURCE),
+    '  </testsuite>',
+  ];
+}
+
+/**
+ * Format output as JUnit XML: one testsuite per linter (and one for issues
+ * about suppression comments), one testcase per file, one failure per issue
+ */
+export function formatJunit(output: VibelintOutput): string {
+  const failedLinters = output.linters.filter(l => !l.success).length;
+  const directiveIssues = output.issues.filter(isDirectiveIssue);
+  const testedFiles = output.linters.reduce(
+    (sum, linter) => sum + groupByFile(issuesForRun(output.issues, linter)).size,
+    groupByFile(directiveIssues).size
+  );
+
+  const lines: string[] = [XML_DECLARATION];
+  lines.push(`<testsuites${xmlAttributes({
+    name: 'lintmesh',
+    tests: testedFiles + failedLinters,
+    failures: output.issues.length,
+    errors: failedLinters,
+    time: toSeconds(output.durationMs),
+  })}>`);
+
+  for (const linter of output.linters) {
+    const issues = issuesForRun(output.issues, linter);
+    lines.push(...formatSuite(linter, issues, output.timestamp));
+  }
+  if (directiveIssues.length > 0) {
+    lines.push(...formatDirectiveSuite(directiveIssues, output.timestamp));
+  }
+
+  lines.push('</testsuites>');
+  return lines.join('\n');
+}
@@ -0,0 +1,38 @@
+import path from 'node:path';
+import { existsSync } from 'node:fs';
+import { pathToFileURL } from 'node:url';
+import type { Reporter } from '../types.js';
+
+/**
+ * Load a custom reporter from a local ESM module.
+ * The module must export the reporter function as its default export or as
+ * a named `reporter` export.
+ * @param modulePath Path to the module, relative to baseDir
+ * @param baseDir Directory of the config file that referenced the module
+ */
+export async function loadCustomReporter(modulePath: string, baseDir: string): Promise<Reporter> {
+  const absPath = path.resolve(baseDir, modulePath);
+
+  if (!existsSync(absPath)) {
+    throw new Error(`Custom reporter not found: ${modulePath} (resolved to ${absPath})`);
+  }
+
+  let mod: Record<string, unknown>;
+  try {
+    mod = await import(pathToFileURL(absPath).href);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to load custom reporter ${modulePath}: ${message}`);
+  }
+
+  const reporter = mod.default ?? mod.reporter;
+  if (typeof reporter !== 'function') {
+    const exported = Object.keys(mod).join(', ') || 'nothing';
+    throw new Error(
+      `Invalid custom reporter ${modulePath}: expected a default or "reporter" export of type function ` +
+      `(output, ctx) => string | void, but it exports ${exported}`
+    );
+  }
+
+  return reporter as Reporter;
+}
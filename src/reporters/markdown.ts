@@ -0,0 +1,90 @@
+import { isDirectiveIssue } from '../suppressions.js';
+import type { Issue, Severity, VibelintOutput } from '../types.js';
+import { DIRECTIVE_SOURCE, groupByFile, issuesForRun, runLabel } from '../utils/group.js';
+import { escapeCell, escapeHtml } from '../utils/markdown.js';
+
+/** Default cap on issues listed, keeps PR comments under size limits */
+export const DEFAULT_MARKDOWN_MAX_ISSUES = 100;
+
+export interface MarkdownOptions {
+  /** Maximum number of issues to list (summary counts always cover all) */
+  maxIssues?: number;
+}
+
+const SEVERITY_ICONS: Record<Severity, string> = {
+  error: '🔴',
+  warning: '🟡',
+  info: '🔵',
+};
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`;
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+function formatIssue(issue: Issue): string {
+  const rule = issue.meta?.docsUrl
+    ? `[\`${issue.ruleId}\`](${issue.meta.docsUrl})`
+    : `\`${issue.ruleId}\``;
+  const message = escapeHtml(issue.message.replace(/\r?\n/g, ' '));
+  return `- ${SEVERITY_ICONS[issue.severity]} **${issue.line}:${issue.column}** ${message} ${rule}`;
+}
+
+/**
+ * Format output as Markdown for pull-request comments: a summary table per
+ * linter, then a collapsible section per file
+ */
+export function formatMarkdown(output: VibelintOutput, options: MarkdownOptions = {}): string {
+  const maxIssues = options.maxIssues ?? DEFAULT_MARKDOWN_MAX_ISSUES;
+  const { summary } = output;
+  const lines: string[] = ['## lintmesh', ''];
+
+  if (summary.total === 0) {
+    lines.push('✅ No issues found.');
+  } else {
+    lines.push(`**${summary.total} issues** (${summary.errors} errors, ${summary.warnings} warnings, ${summary.info} info, ${summary.fixable} fixable)`);
+  }
+  lines.push('');
+
+  lines.push('| Linter | Version | Status | Duration | Errors | Warnings | Info |');
+  lines.push('|--------|---------|--------|---------:|-------:|---------:|-----:|');
+  for (const linter of output.linters) {
+    const issues = issuesForRun(output.issues, linter);
+    const count = (severity: Severity) => issues.filter(i => i.severity === severity).length;
+    const status = linter.success ? '✅' : `❌ ${escapeCell(linter.error ?? 'failed')}`;
+    lines.push(
+      `| ${escapeCell(runLabel(linter))} | ${escapeCell(linter.version)} | ${status} | ${formatDuration(linter.durationMs)} | ${count('error')} | ${count('warning')} | ${count('info')} |`
+    );
+  }
+
+  // Issues about suppression comments come from lintmesh, not a linter
+  const directiveIssues = output.issues.filter(isDirectiveIssue);
+  if (directiveIssues.length > 0) {
+    const count = (severity: Severity) => directiveIssues.filter(i => i.severity === severity).length;
+    lines.push(`| ${DIRECTIVE_SOURCE} | - | ✅ | - | ${count('error')} | ${count('warning')} | ${count('info')} |`);
+  }
+
+  let remaining = maxIssues;
+  for (const [filePath, issues] of groupByFile(output.issues)) {
+    if (remaining <= 0) break;
+
+    const shown = issues.slice(0, remaining);
+    remaining -= shown.length;
+
+    lines.push('');
+    lines.push('<details>');
+    lines.push(`<summary><code>${escapeHtml(filePath)}</code> (${issues.length})</summary>`);
+    lines.push('');
+    lines.push(...shown.map(formatIssue));
+    lines.push('');
+    lines.push('</details>');
+  }
+
+  const hidden = output.issues.length - Math.min(output.issues.length, maxIssues);
+  if (hidden > 0) {
+    lines.push('');
+    lines.push(`…and ${hidden} more issue${hidden === 1 ? '' : 's'}.`);
+  }
+
+  return lines.join('\n');
+}
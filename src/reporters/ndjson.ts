@@ -0,0 +1,52 @@
+import type { VibelintOutput } from '../types.js';
+import type { LinterCompletion } from '../runner.js';
+import { isDirectiveIssue } from '../suppressions.js';
+import { issuesForRun } from '../utils/group.js';
+
+/**
+ * NDJSON lines for one finished linter: its run record, then its issues
+ */
+export function formatNdjsonLinter(completion: LinterCompletion): string {
+  const lines = [
+    JSON.stringify({ type: 'linter', ...completion.run }),
+    ...completion.issues.map(issue => JSON.stringify({ type: 'issue', ...issue })),
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * Final NDJSON line with run metadata and summary counts
+ */
+export function formatNdjsonSummary(output: VibelintOutput): string {
+  return JSON.stringify({
+    type: 'summary',
+    timestamp: output.timestamp,
+    cwd: output.cwd,
+    durationMs: output.durationMs,
+    summary: output.summary,
+  });
+}
+
+/**
+ * Final NDJSON lines when streaming: issues about suppression comments (known
+ * only once every linter has finished), then the summary
+ */
+export function formatNdjsonEnd(output: VibelintOutput): string {
+  const lines = output.issues
+    .filter(isDirectiveIssue)
+    .map(issue => JSON.stringify({ type: 'issue', ...issue }));
+  lines.push(formatNdjsonSummary(output));
+  return lines.join('\n');
+}
+
+/**
+ * Format a finished run as NDJSON (batch form of the streaming output).
+ * Linters appear in output order, each followed by its issues.
+ */
+export function formatNdjson(output: VibelintOutput): string {
+  const lines = output.linters.map(run =>
+    formatNdjsonLinter({ run, issues: issuesForRun(output.issues, run) })
+  );
+  lines.push(formatNdjsonEnd(output));
+  return lines.join('\n');
+}
@@ -0,0 +1,138 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import type { Issue, Severity, VibelintOutput } from '../types.js';
+import { issueSource } from '../utils/group.js';
+import { byteOffsetToPosition, lineStarts, type BytePosition } from '../utils/offsets.js';
+
+/**
+ * reviewdog Diagnostic Format (rdjson / rdjsonl)
+ * https://github.com/reviewdog/reviewdog/tree/master/proto/rdf
+ */
+
+type RdSeverity = 'ERROR' | 'WARNING' | 'INFO';
+
+interface RdRange {
+  start: BytePosition;
+  end: BytePosition;
+}
+
+interface RdSuggestion {
+  range: RdRange;
+  text: string;
+}
+
+export interface RdDiagnostic {
+  message: string;
+  location: {
+    path: string;
+    range: {
+      start: { line: number; column: number };
+      end: { line: number; column: number };
+    };
+  };
+  severity: RdSeverity;
+  source: { name: string };
+  code: { value: string; url?: string };
+  suggestions?: RdSuggestion[];
+}
+
+export interface RdDiagnosticResult {
+  source: { name: string; url: string };
+  diagnostics: RdDiagnostic[];
+}
+
+const SEVERITIES: Record<Severity, RdSeverity> = {
+  error: 'ERROR',
+  warning: 'WARNING',
+  info: 'INFO',
+};
+
+/**
+ * Reads files once and caches their line start offsets
+ */
+class LineIndex {
+  private cache = new Map<string, number[] | null>();
+
+  constructor(private cwd: string) {}
+
+  get(filePath: string): number[] | null {
+    let starts = this.cache.get(filePath);
+    if (starts === undefined) {
+      try {
+        starts = lineStarts(readFileSync(path.resolve(this.cwd, filePath)));
+      } catch {
+        starts = null;
+      }
+      this.cache.set(filePath, starts);
+    }
+    return starts;
+  }
+}
+
+/**
+ * Convert fix replacements to suggestions with line/column ranges.
+ * Returns undefined when there is no fix or the source can't be read.
+ */
+function toSuggestions(issue: Issue, lines: LineIndex): RdSuggestion[] | undefined {
+  if (!issue.fix?.replacements.length) return undefined;
+
+  const starts = lines.get(issue.path);
+  if (!starts) return undefined;
+
+  return issue.fix.replacements.map(replacement => ({
+    range: {
+      start: byteOffsetToPosition(starts, replacement.startOffset),
+      end: byteOffsetToPosition(starts, replacement.endOffset),
+    },
+    text: replacement.text,
+  }));
+}
+
+function toDiagnostic(issue: Issue, lines: LineIndex): RdDiagnostic {
+  const diagnostic: RdDiagnostic = {
+    message: issue.message,
+    location: {
+      path: issue.path,
+      range: {
+        start: { line: issue.line, column: issue.column },
+        end: { line: issue.endLine, column: issue.endColumn },
+      },
+    },
+    severity: SEVERITIES[issue.severity],
+    source: { name: issueSource(issue) },
+    code: { value: issue.ruleId, url: issue.meta?.docsUrl },
+  };
+
+  const suggestions = toSuggestions(issue, lines);
+  if (suggestions) {
+    diagnostic.suggestions = suggestions;
+  }
+
+  return diagnostic;
+}
+
+/**
+ * Build rdjson diagnostics, reading source files to place fix suggestions
+ */
+export function buildRdjson(output: VibelintOutput): RdDiagnosticResult {
+  const lines = new LineIndex(output.cwd);
+  return {
+    source: { name: 'lintmesh', url: 'https://github.com/hexsprite/lintmesh' },
+    diagnostics: output.issues.map(issue => toDiagnostic(issue, lines)),
+  };
+}
+
+/**
+ * Format output as a single rdjson document
+ */
+export function formatRdjson(output: VibelintOutput, pretty = false): string {
+  const result = buildRdjson(output);
+  return pretty ? JSON.stringify(result, null, 2) : JSON.stringify(result);
+}
+
+/**
+ * Format output as rdjsonl: one diagnostic per line
+ */
+export function formatRdjsonl(output: VibelintOutput): string {
+  return buildRdjson(output).diagnostics.map(d => JSON.stringify(d)).join('\n');
+}
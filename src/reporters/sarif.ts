@@ -0,0 +1,159 @@
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { isDirectiveIssue } from '../suppressions.js';
+import type { Issue, LinterName, Severity, VibelintOutput } from '../types.js';
+import { computeFingerprints } from '../utils/fingerprint.js';
+import { DIRECTIVE_SOURCE, issuesForRun } from '../utils/group.js';
+import { VERSION } from '../version.js';
+import {
+  SARIF_SCHEMA_URL,
+  SARIF_VERSION,
+  type SarifLevel,
+  type SarifLog,
+  type SarifReportingDescriptor,
+  type SarifResult,
+  type SarifRun,
+} from '../sarif-schema.js';
+
+/** Base id that all artifact URIs are relative to */
+const SRCROOT = '%SRCROOT%';
+
+/** Fingerprint key used in partialFingerprints */
+const FINGERPRINT_KEY = 'lintmeshIssueHash/v1';
+
+const INFORMATION_URIS: Record<LinterName, string> = {
+  eslint: 'https://eslint.org',
+  oxlint: 'https://oxc.rs',
+  tsc: 'https://www.typescriptlang.org',
+  biome: 'https://biomejs.dev',
+};
+
+const LEVELS: Record<Severity, SarifLevel> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note',
+};
+
+/**
+ * Convert a relative issue path to a URI reference (forward slashes, encoded)
+ */
+function toUri(filePath: string): string {
+  return filePath
+    .split(path.sep)
+    .map(segment => encodeURIComponent(segment))
+    .join('/');
+}
+
+/** The tool behind a SARIF run, without its rules */
+type SarifTool = Omit<SarifRun['tool']['driver'], 'rules'>;
+
+/**
+ * Build a single SARIF run from a tool's invocation and the issues it reported
+ */
+function buildRun(
+  tool: SarifTool,
+  invocation: SarifRun['invocations'][number],
+  issues: Issue[],
+  fingerprints: Map<Issue, string>,
+  cwd: string
+): SarifRun {
+  const rules: SarifReportingDescriptor[] = [];
+  const ruleIndex = new Map<string, number>();
+  const results: SarifResult[] = [];
+
+  for (const issue of issues) {
+    let index = ruleIndex.get(issue.ruleId);
+    if (index === undefined) {
+      index = rules.length;
+      ruleIndex.set(issue.ruleId, index);
+      rules.push({
+        id: issue.ruleId,
+        helpUri: issue.meta?.docsUrl || undefined,
+        properties: issue.meta
+          ? { category: issue.meta.category, fixable: issue.meta.fixable }
+          : undefined,
+      });
+    }
+
+    results.push({
+      ruleId: issue.ruleId,
+      ruleIndex: index,
+      level: LEVELS[issue.severity],
+      message: { text: issue.message },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: toUri(issue.path), uriBaseId: SRCROOT },
+            region: {
+              startLine: issue.line,
+              startColumn: issue.column,
+              endLine: issue.endLine,
+              endColumn: issue.endColumn,
+            },
+          },
+        },
+      ],
+      partialFingerprints: { [FINGERPRINT_KEY]: fingerprints.get(issue)! },
+    });
+  }
+
+  return {
+    tool: {
+      driver: { ...tool, rules },
+    },
+    invocations: [invocation],
+    originalUriBaseIds: {
+      [SRCROOT]: { uri: pathToFileURL(cwd.endsWith(path.sep) ? cwd : cwd + path.sep).href },
+    },
+    results,
+  };
+}
+
+/**
+ * Build a SARIF 2.1.0 log with one run per linter, plus one for lintmesh
+ * itself if it reported issues about suppression comments
+ */
+export function buildSarifLog(output: VibelintOutput): SarifLog {
+  const fingerprintList = computeFingerprints(output.issues);
+  const fingerprints = new Map(output.issues.map((issue, i) => [issue, fingerprintList[i]]));
+
+  const runs = output.linters.map(linter =>
+    buildRun(
+      { name: linter.name, version: linter.version, informationUri: INFORMATION_URIS[linter.name] },
+      {
+        executionSuccessful: linter.success,
+        toolExecutionNotifications: linter.error
+          ? [{ level: 'error', message: { text: linter.error } }]
+          : undefined,
+      },
+      issuesForRun(output.issues, linter),
+      fingerprints,
+      output.cwd
+    )
+  );
+
+  const directiveIssues = output.issues.filter(isDirectiveIssue);
+  if (directiveIssues.length > 0) {
+    runs.push(buildRun(
+      { name: DIRECTIVE_SOURCE, version: VERSION, informationUri: 'https://github.com/hexsprite/lintmesh' },
+      { executionSuccessful: true },
+      directiveIssues,
+      fingerprints,
+      output.cwd
+    ));
+  }
+
+  return {
+    $schema: SARIF_SCHEMA_URL,
+    version: SARIF_VERSION,
+    runs,
+  };
+}
+
+/**
+ * Format output as a SARIF 2.1.0 JSON document
+ */
+export function formatSarif(output: VibelintOutput, pretty = false): string {
+  const log = buildSarifLog(output);
+  return pretty ? JSON.stringify(log, null, 2) : JSON.stringify(log);
+}
@@ -0,0 +1,122 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { Issue, VibelintOutput } from '../types.js';
+import { createColors, type Colors } from '../utils/colors.js';
+import { groupByFile, runLabel } from '../utils/group.js';
+
+/** Source lines shown before and after the issue range */
+const CONTEXT_LINES = 2;
+
+/** Maximum lines of an issue range shown before eliding the rest */
+const MAX_RANGE_LINES = 6;
+
+export interface StylishOptions {
+  /** Directory issue paths are relative to */
+  cwd: string;
+  /** Emit ANSI colors and OSC 8 hyperlinks */
+  colors: boolean;
+}
+
+/**
+ * Read a file's lines, or null if it cannot be read
+ */
+function readLines(filePath: string): string[] | null {
+  try {
+    return readFileSync(filePath, 'utf-8').split(/\r?\n/);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build the underline for one line of an issue range.
+ * Keeps tabs from the source so the carets line up with the code above.
+ */
+function underline(issue: Issue, lineNumber: number, text: string): string {
+  const start = lineNumber === issue.line
+    ? issue.column
+    : text.length - text.trimStart().length + 1;
+  const end = lineNumber === issue.endLine ? issue.endColumn : text.length + 1;
+
+  const padding = text.slice(0, start - 1).replace(/[^\t]/g, ' ');
+  return padding + '^'.repeat(Math.max(1, end - start));
+}
+
+/**
+ * Render a code frame for an issue: context lines, the marked range and
+ * carets under the exact columns
+ */
+export function codeFrame(issue: Issue, lines: string[], c: Colors): string[] {
+  const first = Math.max(1, issue.line - CONTEXT_LINES);
+  const rangeEnd = Math.min(issue.endLine, issue.line + MAX_RANGE_LINES - 1);
+  const last = Math.min(lines.length, rangeEnd + CONTEXT_LINES);
+  const gutterWidth = String(last).length;
+
+  const frame: string[] = [];
+  for (let n = first; n <= last; n++) {
+    const text = lines[n - 1] ?? '';
+    const inRange = n >= issue.line && n <= rangeEnd;
+    const marker = inRange ? c.red('>') : ' ';
+    const gutter = c.dim(`${String(n).padStart(gutterWidth)} |`);
+
+    frame.push(`  ${marker} ${gutter} ${text}`);
+    if (inRange) {
+      const blank = c.dim(`${' '.repeat(gutterWidth)} |`);
+      frame.push(`    ${blank} ${c.red(underline(issue, n, text))}`);
+    }
+    if (n === rangeEnd && rangeEnd < issue.endLine) {
+      frame.push(`    ${c.dim(`${' '.repeat(gutterWidth)} | …`)}`);
+    }
+  }
+  return frame;
+}
+
+/**
+ * Format output for people: issues grouped by file, each with a code frame.
+ * File locations and rule docs are terminal hyperlinks when colors are on.
+ */
+export function formatStylish(output: VibelintOutput, options: StylishOptions): string {
+  const c = createColors(options.colors);
+  const out: string[] = [];
+
+  for (const [filePath, issues] of groupByFile(output.issues)) {
+    const absPath = path.resolve(options.cwd, filePath);
+    const fileUrl = pathToFileURL(absPath).href;
+    const lines = readLines(absPath);
+
+    out.push(c.bold(c.link(filePath, fileUrl)));
+
+    for (const issue of issues) {
+      const loc = c.link(`${filePath}:${issue.line}:${issue.column}`, fileUrl);
+      const sev = issue.severity === 'error'
+        ? c.red(issue.severity)
+        : issue.severity === 'warning' ? c.yellow(issue.severity) : c.cyan(issue.severity);
+      const rule = issue.meta?.docsUrl
+        ? c.link(c.dim(issue.ruleId), issue.meta.docsUrl)
+        : c.dim(issue.ruleId);
+
+      out.push(`  ${loc} ${sev} ${issue.message} ${rule}`);
+      if (lines) {
+        out.push(...codeFrame(issue, lines, c));
+      }
+      out.push('');
+    }
+  }
+
+  for (const linter of output.linters) {
+    if (!linter.success) {
+      out.push(c.red(`✗ ${runLabel(linter)} failed: ${linter.error ?? 'unknown error'}`));
+    }
+  }
+
+  const { total, errors, warnings, info } = output.summary;
+  if (total > 0) {
+    const counts = `${total} problems (${errors} errors, ${warnings} warnings, ${info} info)`;
+    out.push(c.bold(errors > 0 ? c.red(`✖ ${counts}`) : c.yellow(`⚠ ${counts}`)));
+  } else {
+    out.push(c.cyan('✔ No issues found'));
+  }
+
+  return out.join('\n');
+}
@@ -0,0 +1,148 @@
+import type { Issue, Severity } from './types.js';
+
+/**
+ * Linter-specific rule IDs that check the same thing, keyed by canonical rule ID.
+ *
+ * Canonical IDs are ESLint core rule names. ESLint, typescript-eslint and oxlint
+ * spellings don't need entries: they reduce to the same rule ID (see ruleKey).
+ */
+export const RULE_EQUIVALENCES: Record<string, string[]> = {
+  'no-unused-vars': [
+    'biome/noUnusedVariables',
+    'biome/noUnusedImports',
+    'tsc/TS6133',
+    'tsc/TS6192',
+    'tsc/TS6196',
+  ],
+  'no-unreachable': ['biome/noUnreachable', 'tsc/TS7027'],
+  'no-explicit-any': ['biome/noExplicitAny'],
+  'no-non-null-assertion': ['biome/noNonNullAssertion'],
+  'no-debugger': ['biome/noDebugger'],
+  'no-console': ['biome/noConsole', 'biome/noConsoleLog'],
+  'no-var': ['biome/noVar'],
+  'prefer-const': ['biome/useConst'],
+  'prefer-template': ['biome/useTemplate'],
+  'eqeqeq': ['biome/noDoubleEquals'],
+  'no-empty': ['biome/noEmptyBlockStatements'],
+  'no-dupe-keys': ['biome/noDuplicateObjectKeys'],
+  'no-duplicate-case': ['biome/noDuplicateCase'],
+  'no-fallthrough': ['biome/noFallthroughSwitchClause', 'tsc/TS7029'],
+  'no-self-assign': ['biome/noSelfAssign'],
+  'no-sparse-arrays': ['biome/noSparseArray'],
+  'no-unsafe-finally': ['biome/noUnsafeFinally'],
+  'no-constant-condition': ['biome/noConstantCondition'],
+  'no-empty-pattern': ['biome/noEmptyPattern'],
+  'no-param-reassign': ['biome/noParameterAssign'],
+  'no-useless-catch': ['biome/noUselessCatch'],
+  'no-unused-labels': ['biome/noUnusedLabels'],
+  'no-compare-neg-zero': ['biome/noCompareNegZero'],
+  'no-eval': ['biome/noGlobalEval'],
+  'no-with': ['biome/noWith'],
+  'use-isnan': ['biome/useIsNan'],
+};
+
+/** Plugins whose rules are ports of ESLint core rules, spelled as ESLint or oxlint write them */
+const CORE_RULE_PLUGINS = new Set(['@typescript-eslint', 'typescript-eslint', 'typescript', 'eslint']);
+
+/**
+ * Reduce a linter's rule ID to the rule ID shared across linters. The linter
+ * namespace goes, and so do plugins that port core rules:
+ * "eslint/@typescript-eslint/no-unused-vars" and
+ * "oxlint/typescript-eslint(no-unused-vars)" both become "no-unused-vars".
+ * Other plugins stay, spelled the ESLint way, so "eslint/import/no-cycle" and
+ * "oxlint/eslint-plugin-import(no-cycle)" both become "import/no-cycle".
+ */
+export function ruleKey(ruleId: string): string {
+  const rule = ruleId.slice(ruleId.indexOf('/') + 1);
+  const parenthesized = rule.match(/^([^(]+)\(([^)]+)\)$/);
+  const plugin = parenthesized
+    ? parenthesized[1].replace(/^eslint-plugin-/, '')
+    : rule.slice(0, Math.max(rule.lastIndexOf('/'), 0));
+  const name = parenthesized ? parenthesized[2] : rule.slice(rule.lastIndexOf('/') + 1);
+  return !plugin || CORE_RULE_PLUGINS.has(plugin) ? name : `${plugin}/${name}`;
+}
+
+/**
+ * Maps linter rule IDs to canonical rule IDs using the built-in table plus
+ * user-provided equivalences (which win when both list the same rule ID)
+ */
+export class RuleEquivalence {
+  private aliases = new Map<string, string>();
+
+  constructor(extra: Record<string, string[]> = {}) {
+    for (const table of [RULE_EQUIVALENCES, extra]) {
+      for (const [canonical, ruleIds] of Object.entries(table)) {
+        for (const ruleId of ruleIds) {
+          this.aliases.set(ruleId, canonical);
+        }
+      }
+    }
+  }
+
+  /**
+   * Canonical ID for a rule: its table entry, else its rule ID without the linter
+   */
+  canonical(ruleId: string): string {
+    return this.aliases.get(ruleId) ?? ruleKey(ruleId);
+  }
+}
+
+/**
+ * Value of an entry in the config's `rules` map
+ */
+export type RuleSetting = 'off' | Severity;
+
+/**
+ * Severity overrides from the config's `rules` map. Keys are rule IDs as
+ * reported (or canonical rule IDs), where `*` matches anything: "oxlint/*"
+ * covers every oxlint rule. An exact key wins over globs, and a longer glob
+ * wins over a shorter one.
+ */
+export class RuleSeverities {
+  private exact = new Map<string, RuleSetting>();
+  private globs: Array<{ key: string; pattern: RegExp; setting: RuleSetting }> = [];
+
+  constructor(rules: Record<string, RuleSetting> = {}) {
+    for (const [key, setting] of Object.entries(rules)) {
+      if (key.includes('*')) {
+        const source = key.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+        this.globs.push({ key, pattern: new RegExp(`^${source}$`), setting });
+      } else {
+        this.exact.set(key, setting);
+      }
+    }
+    this.globs.sort((a, b) => b.key.length - a.key.length);
+  }
+
+  /**
+   * Setting for an issue's rule, if any key matches
+   */
+  setting(issue: Issue): RuleSetting | undefined {
+    const ids = issue.canonicalRuleId ? [issue.ruleId, issue.canonicalRuleId] : [issue.ruleId];
+    for (const id of ids) {
+      const setting = this.exact.get(id);
+      if (setting) return setting;
+    }
+    return this.globs.find(glob => ids.some(id => glob.pattern.test(id)))?.setting;
+  }
+
+  /**
+   * Drop issues whose rule is off and re-grade the rest, recording the
+   * severity the linter reported
+   */
+  apply(issues: Issue[]): Issue[] {
+    if (this.exact.size === 0 && this.globs.length === 0) {
+      return issues;
+    }
+
+    const result: Issue[] = [];
+    for (const issue of issues) {
+      const setting = this.setting(issue);
+      if (setting === 'off') continue;
+      result.push(setting && setting !== issue.severity
+        ? { ...issue, severity: setting, originalSeverity: issue.severity }
+        : issue);
+    }
+    return result;
+  }
+}
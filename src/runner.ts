@@ -1,4 +1,5 @@
-import type { CliOptions, LinterRun, VibelintOutput, Issue, Summary, LinterName } from './types.js';
+import path from 'node:path';
+import type { CliOptions, LinterRun, LinterResult, VibelintOutput, Issue, Summary, LinterName } from './types.js';
 import { resolveFiles } from './utils/files.js';
 import { ESLintAdapter } from './linters/eslint.js';
 import { OxlintAdapter } from './linters/oxlint.js';
@@ -6,26 +7,35 @@ import { TscAdapter } from './linters/tsc.js';
 import { BiomeAdapter } from './linters/biome.js';
 import { ProgressDisplay } from './utils/progress.js';
 import type { Linter } from './linters/interface.js';
+import { BaselineMatcher } from './baseline.js';
+import { filterChangedFiles, filterChangedIssues } from './utils/git.js';
+import { mergeIssues } from './merge.js';
+import { RuleEquivalence } from './rules.js';
+import { SuppressionMatcher } from './suppressions.js';
+import { FileSettings, type EffectiveLinterConfig } from './overrides.js';
+import { findPackage, findWorkspacePackages, groupByPackage, type PackageFiles, type WorkspacePackage } from './workspaces.js';
 
 /**
- * Create adapter instances for requested linters
+ * Create adapter instances for requested linters, with the binary set in
+ * config if any
  */
-function createAdapters(linterNames: LinterName[]): Linter[] {
+function createAdapters(linterNames: LinterName[], configs: CliOptions['linterConfigs'] = {}): Linter[] {
   const adapters: Linter[] = [];
 
   for (const name of linterNames) {
+    const bin = configs[name]?.bin;
     switch (name) {
       case 'eslint':
-        adapters.push(new ESLintAdapter());
+        adapters.push(new ESLintAdapter(bin));
         break;
       case 'oxlint':
-        adapters.push(new OxlintAdapter());
+        adapters.push(new OxlintAdapter(bin));
         break;
       case 'tsc':
-        adapters.push(new TscAdapter());
+        adapters.push(new TscAdapter(bin));
         break;
       case 'biome':
-        adapters.push(new BiomeAdapter());
+        adapters.push(new BiomeAdapter(bin));
         break;
     }
   }
@@ -43,6 +53,7 @@ function computeSummary(issues: Issue[]): Summary {
     warnings: issues.filter(i => i.severity === 'warning').length,
     info: issues.filter(i => i.severity === 'info').length,
     fixable: issues.filter(i => i.fix !== undefined).length,
+    suggestions: issues.filter(i => i.suggestions?.length).length,
   };
 }
 
@@ -62,111 +73,264 @@ function sortIssues(issues: Issue[]): Issue[] {
 }
 
 /**
- * Run all requested linters in parallel and aggregate results
+ * Whether to pass a linter its own fix flag. Linters that report fix
+ * replacements are fixed by lintmesh instead; others fix natively unless
+ * --fix-rule asks for something their fix flag can't select.
  */
-export async function runLinters(options: CliOptions): Promise<VibelintOutput> {
-  const startTime = Date.now();
+function useNativeFix(adapter: Linter, options: CliOptions): boolean {
+  if (!options.fix || adapter.reportsFixes) return false;
+  if (options.fixRules?.length) return false;
+  return !options.fixSources?.length || options.fixSources.includes(adapter.name);
+}
 
-  // Resolve files
-  const files = await resolveFiles(options.files, options.cwd, options.exclude);
+/**
+ * A single linter's result, emitted as soon as that linter finishes
+ */
+export interface LinterCompletion {
+  /** Execution info for the linter */
+  run: LinterRun;
+  /** Issues found by the linter, sorted by file then line */
+  issues: Issue[];
+  /** Files the linter ran on, relative to cwd; none if it failed */
+  files?: string[];
+}
+
+/**
+ * Files and per-file settings for a run, resolved once up front
+ */
+export interface RunContext {
+  /** Files to lint (absolute paths), restricted to changed files when options.changes is set */
+  files: string[];
+  /** Settings from overrides and nested config files */
+  settings: FileSettings;
+  /** The files by workspace package, or all of them in cwd outside workspace mode */
+  packages: PackageFiles[];
+  /** Every workspace package, root first; empty outside workspace mode */
+  workspace: WorkspacePackage[];
+}
+
+/**
+ * Resolve the files to lint and the settings for each. Pass the result to
+ * runLinters to reuse it across runs (e.g., fix passes).
+ */
+export async function resolveRun(options: CliOptions): Promise<RunContext> {
+  const resolved = await resolveFiles(options.files, options.cwd, options.exclude);
+  const files = options.changes ? filterChangedFiles(resolved, options.changes, options.cwd) : resolved;
+  const workspace = options.workspaces ? await findWorkspacePackages(options.cwd) : [];
+  return {
+    files,
+    settings: await FileSettings.resolve(options),
+    packages: options.workspaces ? groupByPackage(files, workspace) : [{ dir: options.cwd, files }],
+    workspace,
+  };
+}
+
+/**
+ * Run an adapter in a package once per distinct set of extra arguments that
+ * overrides and nested configs give its files, skipping files where they turn
+ * it off. Each run keeps only issues in files with its own settings, and in
+ * workspace mode of its own package, since project-wide linters like tsc
+ * report on every file. Issue paths, and the files it ran on, are relative
+ * to options.cwd, wherever the adapter ran.
+ */
+async function runAdapterWithOverrides(
+  adapter: Linter,
+  options: CliOptions,
+  { settings, workspace }: RunContext,
+  { package: pkg, dir, files }: PackageFiles
+): Promise<LinterResult & { files: string[] }> {
+  const base = { enabled: true, args: options.linterConfigs?.[adapter.name]?.args };
+  const toCwd = (filePath: string) => path.relative(options.cwd, path.resolve(dir, filePath));
+  // A pattern naming the package or a directory above it matches all of it
+  const toPackage = (pattern: string) => {
+    const target = path.resolve(options.cwd, pattern);
+    return dir === target || dir.startsWith(target + path.sep) ? '.' : path.relative(dir, target);
+  };
+  const settingKey = (config: EffectiveLinterConfig) => (config.enabled ? JSON.stringify(config.args ?? null) : null);
+  const keyFor = (filePath: string) => settingKey(settings.linterConfig(adapter.name, filePath, base));
+  const inPackage = (filePath: string) => !pkg || findPackage(path.resolve(options.cwd, filePath), workspace) === pkg;
+
+  const groups = new Map<string, { args?: string[]; files: string[] }>();
+  for (const file of files) {
+    const config = settings.linterConfig(adapter.name, path.relative(options.cwd, file), base);
+    const key = settingKey(config);
+    if (key === null) continue;
+    const group = groups.get(key) ?? { args: config.args, files: [] };
+    group.files.push(file);
+    groups.set(key, group);
+  }
+
+  const combined: LinterResult & { files: string[] } = {
+    success: true,
+    issues: [],
+    filesProcessed: 0,
+    durationMs: 0,
+    files: [],
+  };
+  for (const [key, group] of groups) {
+    const result = await adapter.run({
+      files: group.files,
+      // Original CLI patterns for filtering
+      patterns: dir === options.cwd ? options.files : options.files.map(toPackage),
+      cwd: dir,
+      timeout: options.timeout,
+      verbose: options.verbose,
+      fix: useNativeFix(adapter, options),
+      extraArgs: group.args,
+    });
+    combined.success &&= result.success;
+    combined.error ??= result.error;
+    combined.filesProcessed += result.filesProcessed;
+    combined.durationMs += result.durationMs;
+    const issues = dir === options.cwd ? result.issues : result.issues.map(i => ({ ...i, path: toCwd(i.path) }));
+    combined.issues.push(...issues.filter(i => keyFor(i.path) === key && inPackage(i.path)));
+    combined.files.push(...group.files.map(file => path.relative(options.cwd, file)));
+  }
+
+  return combined;
+}
+
+/**
+ * Run all requested linters in parallel, yielding each result as soon as
+ * its linter finishes (fastest first)
+ * @param context Files and settings, if already resolved
+ */
+export async function* streamLinters(options: CliOptions, context?: RunContext): AsyncGenerator<LinterCompletion> {
+  const resolved = context ?? await resolveRun(options);
+  const { files, settings, packages } = resolved;
 
   if (files.length === 0) {
-    return {
-      timestamp: new Date().toISOString(),
-      cwd: options.cwd,
-      durationMs: Date.now() - startTime,
-      linters: [],
-      issues: [],
-      summary: { total: 0, errors: 0, warnings: 0, info: 0, fixable: 0 },
-    };
+    return;
   }
 
+  const rules = new RuleEquivalence(options.ruleEquivalences);
+
   // Create adapters
-  const adapters = createAdapters(options.linters);
+  const adapters = createAdapters(options.linters, options.linterConfigs);
 
-  // Filter to available linters
+  // One unit per linter and workspace package, where the linter is
+  // available: packages can install linters of their own
   const availabilityChecks = await Promise.all(
-    adapters.map(async adapter => ({
+    adapters.flatMap(adapter => packages.map(async pkg => ({
       adapter,
-      available: await adapter.isAvailable(),
-    }))
+      pkg,
+      label: pkg.package ? `${adapter.name} (${pkg.package.name})` : adapter.name,
+      available: await adapter.isAvailable(pkg.dir),
+    })))
   );
 
-  const availableAdapters = availabilityChecks
-    .filter(check => check.available)
-    .map(check => check.adapter);
+  const units = availabilityChecks.filter(check => check.available);
 
   // Set up progress display for interactive mode
   let progress: ProgressDisplay | null = null;
   if (options.interactive) {
     progress = new ProgressDisplay();
-    for (const adapter of availableAdapters) {
-      progress.addTask(adapter.name);
+    for (const unit of units) {
+      progress.addTask(unit.label);
     }
     progress.start();
   }
 
   // Run linters in parallel
-  const linterResults = await Promise.all(
-    availableAdapters.map(async adapter => {
-      const linterStart = Date.now();
-
-      progress?.update(adapter.name, 'running');
-
-      try {
-        const version = await adapter.getVersion();
-        const result = await adapter.run({
-          files,
-          patterns: options.files, // Original CLI patterns for filtering
-          cwd: options.cwd,
-          timeout: options.timeout,
-          verbose: options.verbose,
-          fix: options.fix,
-          extraArgs: options.linterConfigs?.[adapter.name]?.args,
-        });
-
-        const run: LinterRun = {
-          name: adapter.name,
-          version,
-          success: result.success,
-          error: result.error?.message,
-          durationMs: result.durationMs,
-          filesProcessed: result.filesProcessed,
-        };
-
-        const issueCount = result.issues.length;
-        progress?.update(
-          adapter.name,
-          'success',
-          issueCount > 0 ? `${issueCount} issue${issueCount === 1 ? '' : 's'}` : undefined,
-          result.durationMs
-        );
-
-        return { run, issues: result.issues };
-      } catch (error) {
-        const run: LinterRun = {
-          name: adapter.name,
-          version: 'unknown',
-          success: false,
-          error: error instanceof Error ? error.message : String(error),
-          durationMs: Date.now() - linterStart,
-          filesProcessed: 0,
-        };
-
-        progress?.update(adapter.name, 'error', run.error, run.durationMs);
-
-        return { run, issues: [] };
-      }
-    })
+  const runAdapter = async ({ adapter, pkg, label }: typeof units[number]): Promise<LinterCompletion> => {
+    const linterStart = Date.now();
+    const packageName = pkg.package?.name;
+
+    progress?.update(label, 'running');
+
+    try {
+      const version = await adapter.getVersion(pkg.dir);
+      const result = await runAdapterWithOverrides(adapter, options, resolved, pkg);
+      const binary = adapter.findBinary(pkg.dir);
+
+      const run: LinterRun = {
+        name: adapter.name,
+        version,
+        success: result.success,
+        error: result.error?.message,
+        durationMs: result.durationMs,
+        filesProcessed: result.filesProcessed,
+        ...(packageName && { package: packageName }),
+        ...(binary && { binPath: binary.path, binSource: binary.source }),
+      };
+
+      // Project-wide linters like tsc report on unchanged files too
+      const changedIssues = options.changes
+        ? filterChangedIssues(result.issues, options.changes, options.onlyChangedLines ?? false)
+        : result.issues;
+      const issues = changedIssues
+        .map(issue => ({
+          ...issue,
+          canonicalRuleId: rules.canonical(issue.ruleId),
+          ...(packageName && { package: packageName }),
+        }))
+        .flatMap(issue => settings.severities(issue.path).apply([issue]));
+
+      const issueCount = issues.length;
+      progress?.update(
+        label,
+        'success',
+        issueCount > 0 ? `${issueCount} issue${issueCount === 1 ? '' : 's'}` : undefined,
+        result.durationMs
+      );
+
+      return { run, issues: sortIssues(issues), files: result.success ? result.files : [] };
+    } catch (error) {
+      const run: LinterRun = {
+        name: adapter.name,
+        version: 'unknown',
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - linterStart,
+        filesProcessed: 0,
+        ...(packageName && { package: packageName }),
+      };
+
+      progress?.update(label, 'error', run.error, run.durationMs);
+
+      return { run, issues: [], files: [] };
+    }
+  };
+
+  // Yield in completion order
+  const pending = new Map(
+    units.map((unit, index) => [
+      index,
+      runAdapter(unit).then(completion => ({ index, completion })),
+    ])
   );
 
-  // Stop progress display
-  progress?.stop();
+  try {
+    while (pending.size > 0) {
+      const { index, completion } = await Promise.race(pending.values());
+      pending.delete(index);
+      yield completion;
+    }
+  } finally {
+    // Stop progress display
+    progress?.stop();
+  }
+}
+
+/**
+ * Aggregate linter results into the final output
+ */
+export function buildOutput(
+  options: CliOptions,
+  completions: LinterCompletion[],
+  startTime: number
+): VibelintOutput {
+  // Report linters in the order they were requested, not completion order
+  const ordered = [...completions].sort(
+    (a, b) => options.linters.indexOf(a.run.name) - options.linters.indexOf(b.run.name)
+      || (a.run.package ?? '').localeCompare(b.run.package ?? '')
+  );
 
-  // Aggregate results
-  const linters = linterResults.map(r => r.run);
-  const allIssues = linterResults.flatMap(r => r.issues);
-  const sortedIssues = sortIssues(allIssues);
+  const linters = ordered.map(c => c.run);
+  const allIssues = ordered.flatMap(c => c.issues);
+  const sortedIssues = options.merge
+    ? mergeIssues(sortIssues(allIssues), options.merge.priority)
+    : sortIssues(allIssues);
 
   return {
     timestamp: new Date().toISOString(),
@@ -177,3 +341,62 @@ export async function runLinters(options: CliOptions): Promise<VibelintOutput> {
     summary: computeSummary(sortedIssues),
   };
 }
+
+/**
+ * Run all requested linters in parallel and aggregate results.
+ * Issues covered by lintmesh-ignore comments or the baseline (if any) are
+ * dropped before anything sees them; misused comments are reported as issues.
+ * @param onLinter Called as each linter finishes, before aggregation
+ * @param resolved Files and settings from resolveRun, if already resolved
+ */
+export async function runLinters(
+  options: CliOptions,
+  onLinter?: (completion: LinterCompletion) => void,
+  resolved?: RunContext
+): Promise<VibelintOutput> {
+  const startTime = Date.now();
+  const completions: LinterCompletion[] = [];
+  const baseline = options.baseline ? new BaselineMatcher(options.baseline, options.cwd) : null;
+
+  const context = resolved ?? await resolveRun(options);
+  const suppressions = new SuppressionMatcher(options.cwd, options.suppressions);
+  suppressions.scan(context.files.map(file => path.relative(options.cwd, file)));
+
+  // With onlyChangedLines, other lines of partly changed files go unchecked
+  const fullyChecked = (file: string) => !options.onlyChangedLines || options.changes?.get(file) === 'all';
+
+  for await (const linterResult of streamLinters(options, context)) {
+    baseline?.linted(linterResult.run.name, (linterResult.files ?? []).filter(fullyChecked));
+    const unsuppressed = suppressions.filter(linterResult.issues);
+    const completion = {
+      ...linterResult,
+      issues: baseline ? baseline.filter(unsuppressed) : unsuppressed,
+    };
+    onLinter?.(completion);
+    completions.push(completion);
+  }
+
+  const output = buildOutput(options, completions, startTime);
+
+  // Unused or reason-less directives are only known once every linter is done
+  const packageOf = new Map(context.packages.flatMap(({ package: pkg, files }) =>
+    pkg ? files.map(file => [path.relative(options.cwd, file), pkg.name] as const) : []
+  ));
+  let directiveIssues = suppressions.report(output.linters)
+    .map(issue => (packageOf.has(issue.path) ? { ...issue, package: packageOf.get(issue.path) } : issue))
+    .flatMap(issue => context.settings.severities(issue.path).apply([issue]));
+  if (options.changes) {
+    directiveIssues = filterChangedIssues(directiveIssues, options.changes, options.onlyChangedLines ?? false);
+  }
+  if (directiveIssues.length > 0) {
+    output.issues = sortIssues([...output.issues, ...directiveIssues]);
+    output.summary = computeSummary(output.issues);
+  }
+
+  if (baseline) {
+    output.baseline = baseline.report();
+    output.summary.suppressed = output.baseline.suppressed;
+  }
+
+  return output;
+}
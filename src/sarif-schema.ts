@@ -0,0 +1,84 @@
+import { z } from 'zod';
+
+/**
+ * Zod schemas for the subset of SARIF 2.1.0 emitted by the sarif reporter.
+ * Spec: https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html
+ */
+
+export const SARIF_VERSION = '2.1.0' as const;
+export const SARIF_SCHEMA_URL = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+export const SarifLevelSchema = z.enum(['error', 'warning', 'note', 'none']);
+
+export const SarifMessageSchema = z.object({
+  text: z.string(),
+});
+
+export const SarifReportingDescriptorSchema = z.object({
+  id: z.string(),
+  helpUri: z.string().url().optional(),
+  properties: z.object({
+    category: z.string().optional(),
+    fixable: z.boolean().optional(),
+  }).optional(),
+});
+
+export const SarifRegionSchema = z.object({
+  startLine: z.number().int().positive(),
+  startColumn: z.number().int().positive(),
+  endLine: z.number().int().positive(),
+  endColumn: z.number().int().positive(),
+});
+
+export const SarifLocationSchema = z.object({
+  physicalLocation: z.object({
+    artifactLocation: z.object({
+      uri: z.string(),
+      uriBaseId: z.string().optional(),
+    }),
+    region: SarifRegionSchema,
+  }),
+});
+
+export const SarifResultSchema = z.object({
+  ruleId: z.string(),
+  ruleIndex: z.number().int().nonnegative(),
+  level: SarifLevelSchema,
+  message: SarifMessageSchema,
+  locations: z.array(SarifLocationSchema).min(1),
+  partialFingerprints: z.record(z.string(), z.string()),
+});
+
+export const SarifInvocationSchema = z.object({
+  executionSuccessful: z.boolean(),
+  toolExecutionNotifications: z.array(z.object({
+    level: SarifLevelSchema,
+    message: SarifMessageSchema,
+  })).optional(),
+});
+
+export const SarifRunSchema = z.object({
+  tool: z.object({
+    driver: z.object({
+      name: z.string(),
+      version: z.string(),
+      informationUri: z.string().url().optional(),
+      rules: z.array(SarifReportingDescriptorSchema),
+    }),
+  }),
+  invocations: z.array(SarifInvocationSchema),
+  originalUriBaseIds: z.record(z.string(), z.object({ uri: z.string() })).optional(),
+  results: z.array(SarifResultSchema),
+});
+
+export const SarifLogSchema = z.object({
+  $schema: z.string().url(),
+  version: z.literal(SARIF_VERSION),
+  runs: z.array(SarifRunSchema),
+});
+
+export type SarifLevel = z.infer<typeof SarifLevelSchema>;
+export type SarifReportingDescriptor = z.infer<typeof SarifReportingDescriptorSchema>;
+export type SarifResult = z.infer<typeof SarifResultSchema>;
+export type SarifRun = z.infer<typeof SarifRunSchema>;
+export type SarifLog = z.infer<typeof SarifLogSchema>;
@@ -1,9 +1,12 @@
 import { z } from 'zod';
+import { BaselineEntrySchema } from './baseline.js';
 
 export const SeveritySchema = z.enum(['error', 'warning', 'info']);
 
 export const LinterNameSchema = z.enum(['eslint', 'oxlint', 'tsc', 'biome']);
 
+export const BinSourceSchema = z.enum(['config', 'local', 'path', 'parent']);
+
 export const ReplacementSchema = z.object({
   startOffset: z.number().int().nonnegative(),
   endOffset: z.number().int().nonnegative(),
@@ -14,6 +17,11 @@ export const FixSchema = z.object({
   replacements: z.array(ReplacementSchema),
 });
 
+export const SuggestionSchema = z.object({
+  description: z.string(),
+  fix: FixSchema.optional(),
+});
+
 export const RuleMetaSchema = z.object({
   docsUrl: z.string().url().optional(),
   category: z.string().optional(),
@@ -27,10 +35,15 @@ export const IssueSchema = z.object({
   endLine: z.number().int().positive(),
   endColumn: z.number().int().positive(),
   severity: SeveritySchema,
+  originalSeverity: SeveritySchema.optional(),
   ruleId: z.string(),
+  canonicalRuleId: z.string().optional(),
   message: z.string(),
   source: LinterNameSchema,
+  package: z.string().optional(),
+  sources: z.array(LinterNameSchema).optional(),
   fix: FixSchema.optional(),
+  suggestions: z.array(SuggestionSchema).optional(),
   meta: RuleMetaSchema.optional(),
 });
 
@@ -41,6 +54,9 @@ export const LinterRunSchema = z.object({
   error: z.string().optional(),
   durationMs: z.number().nonnegative(),
   filesProcessed: z.number().int().nonnegative(),
+  package: z.string().optional(),
+  binPath: z.string().optional(),
+  binSource: BinSourceSchema.optional(),
 });
 
 export const SummarySchema = z.object({
@@ -49,6 +65,26 @@ export const SummarySchema = z.object({
   warnings: z.number().int().nonnegative(),
   info: z.number().int().nonnegative(),
   fixable: z.number().int().nonnegative(),
+  suggestions: z.number().int().nonnegative(),
+  suppressed: z.number().int().nonnegative().optional(),
+});
+
+export const BaselineReportSchema = z.object({
+  path: z.string(),
+  suppressed: z.number().int().nonnegative(),
+  unmatched: z.array(BaselineEntrySchema),
+});
+
+export const FixReportSchema = z.object({
+  passes: z.number().int().nonnegative(),
+  applied: z.number().int().nonnegative(),
+  files: z.array(z.string()),
+  converged: z.boolean(),
+});
+
+export const FilePatchSchema = z.object({
+  path: z.string(),
+  diff: z.string(),
 });
 
 export const VibelintOutputSchema = z.object({
@@ -58,6 +94,9 @@ export const VibelintOutputSchema = z.object({
   linters: z.array(LinterRunSchema),
   issues: z.array(IssueSchema),
   summary: SummarySchema,
+  baseline: BaselineReportSchema.optional(),
+  fixes: FixReportSchema.optional(),
+  patches: z.array(FilePatchSchema).optional(),
 });
 
 export type ValidatedVibelintOutput = z.infer<typeof VibelintOutputSchema>;
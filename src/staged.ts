@@ -0,0 +1,205 @@
+import { chmodSync, copyFileSync, existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { exec } from './utils/exec.js';
+import { getChangedFiles, runGit, type ChangedFiles } from './utils/git.js';
+import type { Issue } from './types.js';
+
+/**
+ * Files whose staged content was changed by --fix
+ */
+export interface StagedFixResult {
+  /** Files written back to the index (and working tree where possible) */
+  updated: string[];
+  /** Files whose unstaged changes conflicted with the fix; working tree left as is */
+  conflicts: string[];
+}
+
+/**
+ * A temporary copy of the git index, so linters see exactly what will be committed.
+ *
+ * The whole index is exported (tsc needs the full project) and node_modules is
+ * linked in from the real tree. The directory mirrors the repo layout, so issue
+ * paths relative to `cwd` are also valid relative to the real cwd.
+ */
+export class StagedTree {
+  /** Staged content of each changed file before linting */
+  private originals = new Map<string, Buffer>();
+
+  private constructor(
+    /** Real working directory */
+    readonly realCwd: string,
+    /** Real repository root */
+    readonly repoRoot: string,
+    /** Temporary directory holding the exported index */
+    readonly root: string,
+    /** Directory inside root that mirrors realCwd */
+    readonly cwd: string,
+    /** Staged changes, relative to cwd */
+    readonly changes: ChangedFiles
+  ) {}
+
+  /**
+   * Export the index of the repository containing cwd to a temporary directory
+   */
+  static async create(cwd: string): Promise<StagedTree> {
+    const realCwd = path.resolve(cwd);
+    const repoRoot = path.resolve(realCwd, (await runGit(['rev-parse', '--show-cdup'], realCwd)).trim());
+    const prefix = (await runGit(['rev-parse', '--show-prefix'], realCwd)).trim();
+    const changes = await getChangedFiles(realCwd, { staged: true });
+
+    const root = mkdtempSync(path.join(os.tmpdir(), 'lintmesh-staged-'));
+    try {
+      await runGit(['checkout-index', '--all', `--prefix=${root}${path.sep}`], repoRoot);
+
+      const tree = new StagedTree(realCwd, repoRoot, root, path.resolve(root, prefix), changes);
+      mkdirSync(tree.cwd, { recursive: true });
+      tree.linkNodeModules();
+      tree.snapshot();
+      return tree;
+    } catch (error) {
+      rmSync(root, { recursive: true, force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Point node_modules in the temporary tree at the real ones so adapters find their binaries
+   */
+  private linkNodeModules(): void {
+    for (const [real, temp] of [[this.repoRoot, this.root], [this.realCwd, this.cwd]]) {
+      const source = path.join(real, 'node_modules');
+      const target = path.join(temp, 'node_modules');
+      if (existsSync(source) && !existsSync(target)) {
+        symlinkSync(source, target, 'junction');
+      }
+    }
+  }
+
+  /**
+   * Remember staged content so fixes can be detected after the run
+   */
+  private snapshot(): void {
+    for (const file of this.changes.keys()) {
+      const tempPath = path.join(this.cwd, file);
+      if (existsSync(tempPath)) {
+        this.originals.set(file, readFileSync(tempPath));
+      }
+    }
+  }
+
+  /**
+   * Rewrite temporary paths that linters embed in messages
+   */
+  mapIssue(issue: Issue): Issue {
+    if (!issue.message.includes(this.root)) {
+      return issue;
+    }
+    const message = issue.message.split(this.cwd).join(this.realCwd).split(this.root).join(this.repoRoot);
+    return { ...issue, message };
+  }
+
+  /**
+   * Stage fixes made in the temporary tree, then merge them into the working
+   * tree without dropping unstaged changes
+   */
+  async applyFixes(): Promise<StagedFixResult> {
+    const result: StagedFixResult = { updated: [], conflicts: [] };
+
+    const fixed = [...this.originals].filter(
+      ([file, original]) => !readFileSync(path.join(this.cwd, file)).equals(original)
+    );
+    if (fixed.length === 0) {
+      return result;
+    }
+
+    // Stage from the temporary tree, keeping file modes and the real index
+    const gitDir = path.resolve(this.realCwd, (await runGit(['rev-parse', '--git-dir'], this.realCwd)).trim());
+    const rootPaths = fixed.map(([file]) => path.relative(this.root, path.join(this.cwd, file)));
+    // Hooks get a relative GIT_INDEX_FILE (.git/index) meant for the repo root, not the temporary tree
+    const indexFile = process.env.GIT_INDEX_FILE;
+    const env = indexFile ? { GIT_INDEX_FILE: path.resolve(this.repoRoot, indexFile) } : undefined;
+    await runGit(['--git-dir', gitDir, '--work-tree', this.root, 'add', '--', ...rootPaths], this.root, undefined, env);
+
+    const scratch = mkdtempSync(path.join(os.tmpdir(), 'lintmesh-merge-'));
+    try {
+      for (const [file, original] of fixed) {
+        const fixedPath = path.join(this.cwd, file);
+        const workPath = path.join(this.realCwd, file);
+        result.updated.push(file);
+
+        if (!existsSync(workPath)) {
+          continue;
+        }
+
+        // No unstaged changes: take the fixed file as is
+        const current = readFileSync(workPath);
+        if (current.equals(original)) {
+          copyFileSync(fixedPath, workPath);
+          continue;
+        }
+
+        // Three-way merge: working tree vs staged, staged vs fixed
+        const ours = path.join(scratch, 'ours');
+        const base = path.join(scratch, 'base');
+        writeFileSync(ours, current);
+        writeFileSync(base, original);
+        const merge = await exec('git', ['merge-file', '--quiet', ours, base, fixedPath], {
+          timeout: 30000,
+          cwd: scratch,
+        });
+        if (merge.exitCode === 0) {
+          writeFileSync(workPath, readFileSync(ours));
+        } else {
+          result.conflicts.push(file);
+        }
+      }
+    } finally {
+      rmSync(scratch, { recursive: true, force: true });
+    }
+
+    return result;
+  }
+
+  /**
+   * Delete the temporary tree
+   */
+  cleanup(): void {
+    rmSync(this.root, { recursive: true, force: true });
+  }
+}
+
+export interface InstallHookOptions {
+  cwd: string;
+  /** Run with --fix in the hook */
+  fix?: boolean;
+  /** Overwrite an existing pre-commit hook */
+  force?: boolean;
+}
+
+/**
+ * Write a git pre-commit hook that lints staged content.
+ * Returns the hook path.
+ */
+export async function installHook(options: InstallHookOptions): Promise<string> {
+  const { cwd, fix = false, force = false } = options;
+  const gitDir = path.resolve(cwd, (await runGit(['rev-parse', '--git-common-dir'], cwd)).trim());
+  const hookPath = path.join(gitDir, 'hooks', 'pre-commit');
+
+  if (existsSync(hookPath) && !force) {
+    throw new Error(`Hook already exists: ${hookPath}\nUse --force to overwrite.`);
+  }
+
+  const content = [
+    '#!/bin/sh',
+    '# Installed by lintmesh install-hook',
+    `exec npx --no-install lintmesh --staged${fix ? ' --fix' : ''}`,
+    '',
+  ].join('\n');
+
+  mkdirSync(path.dirname(hookPath), { recursive: true });
+  writeFileSync(hookPath, content, 'utf-8');
+  chmodSync(hookPath, 0o755);
+
+  return hookPath;
+}
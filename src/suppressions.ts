@@ -0,0 +1,221 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { LINTER_IDS } from './config.js';
+import { ruleKey } from './rules.js';
+import type { Issue, LinterName, LinterRun } from './types.js';
+
+/**
+ * Rule ID for directives that suppressed nothing
+ */
+export const UNUSED_SUPPRESSION_RULE = 'lintmesh/unused-suppression';
+
+/**
+ * Rule ID for directives without a reason when suppressions.requireReason is set
+ */
+export const MISSING_REASON_RULE = 'lintmesh/suppression-reason-required';
+
+/**
+ * Matches `// lintmesh-ignore-next-line rules -- reason` and the block comment
+ * and `lintmesh-ignore-file` forms
+ */
+const DIRECTIVE_PATTERN = /(\/\/|\/\*)\s*lintmesh-ignore-(next-line|file)(?=\s|\*\/|$)(.*)$/;
+
+export interface SuppressionOptions {
+  /** Directives without a `-- reason` suppress nothing and are reported */
+  requireReason?: boolean;
+  /** Report directives that suppressed nothing (default: true) */
+  reportUnused?: boolean;
+}
+
+/**
+ * An inline suppression comment
+ */
+export interface SuppressionDirective {
+  /** Path relative to cwd */
+  path: string;
+  /** 1-indexed line of the comment */
+  line: number;
+  /** 1-indexed column where the comment starts */
+  column: number;
+  /** 1-indexed column after the end of the comment's line */
+  endColumn: number;
+  kind: 'next-line' | 'file';
+  /** Rule or canonical rule IDs; empty means every rule */
+  rules: string[];
+  reason?: string;
+}
+
+/**
+ * Find suppression directives in a file's content
+ */
+export function parseDirectives(filePath: string, content: string): SuppressionDirective[] {
+  if (!content.includes('lintmesh-ignore-')) {
+    return [];
+  }
+
+  const directives: SuppressionDirective[] = [];
+  content.split(/\r?\n/).forEach((text, index) => {
+    const match = text.match(DIRECTIVE_PATTERN);
+    if (!match || match.index === undefined) return;
+
+    // Drop the end of a block comment, then split off the reason
+    const body = match[1] === '/*' ? match[3].replace(/\*\/.*$/, '') : match[3];
+    const [rulesPart, ...reasonParts] = body.split(/\s--(?:\s|$)/);
+    const reason = reasonParts.join(' -- ').trim();
+
+    directives.push({
+      path: filePath,
+      line: index + 1,
+      column: match.index + 1,
+      endColumn: text.length + 1,
+      kind: match[2] as SuppressionDirective['kind'],
+      rules: rulesPart.split(/[\s,]+/).filter(Boolean),
+      reason: reason || undefined,
+    });
+  });
+
+  return directives;
+}
+
+/**
+ * Whether an issue is about a directive itself, reported once every linter
+ * has finished rather than by a linter
+ */
+export function isDirectiveIssue(issue: Issue): boolean {
+  return issue.ruleId === UNUSED_SUPPRESSION_RULE || issue.ruleId === MISSING_REASON_RULE;
+}
+
+/**
+ * Whether a directive rule names an issue's rule
+ */
+function ruleMatches(rule: string, issue: Issue): boolean {
+  return rule === issue.ruleId || rule === issue.canonicalRuleId;
+}
+
+/**
+ * Filters issues against inline suppression comments, whichever linter
+ * reported them, and tracks which directives were used
+ */
+export class SuppressionMatcher {
+  private directives = new Map<string, SuppressionDirective[]>();
+  private usedRules = new Map<SuppressionDirective, Set<string>>();
+  private requireReason: boolean;
+  private reportUnused: boolean;
+
+  constructor(private cwd: string, options: SuppressionOptions = {}) {
+    this.requireReason = options.requireReason ?? false;
+    this.reportUnused = options.reportUnused ?? true;
+  }
+
+  /**
+   * Read directives from files up front, so unused ones are reported even
+   * in files where no linter found anything
+   * @param files Paths relative to cwd
+   */
+  scan(files: string[]): void {
+    for (const file of files) {
+      this.load(file);
+    }
+  }
+
+  private load(filePath: string): SuppressionDirective[] {
+    let directives = this.directives.get(filePath);
+    if (directives === undefined) {
+      try {
+        directives = parseDirectives(filePath, readFileSync(path.resolve(this.cwd, filePath), 'utf-8'));
+      } catch {
+        directives = [];
+      }
+      this.directives.set(filePath, directives);
+    }
+    return directives;
+  }
+
+  /** Drop issues covered by a directive */
+  filter(issues: Issue[]): Issue[] {
+    return issues.filter(issue => {
+      const directive = this.load(issue.path).find(d =>
+        (d.reason || !this.requireReason)
+        && (d.kind === 'file' || d.line + 1 === issue.line)
+        && (d.rules.length === 0 || d.rules.some(rule => ruleMatches(rule, issue)))
+      );
+      if (!directive) return true;
+
+      const used = this.usedRules.get(directive) ?? new Set<string>();
+      for (const rule of directive.rules.filter(r => ruleMatches(r, issue))) {
+        used.add(rule);
+      }
+      this.usedRules.set(directive, used);
+      return false;
+    });
+  }
+
+  /**
+   * Issues for directives missing a required reason, and for directives that
+   * suppressed nothing. Rules of linters that didn't run successfully are
+   * never called unused.
+   */
+  report(runs: LinterRun[]): Issue[] {
+    const succeeded = runs.filter(run => run.success).map(run => run.name);
+    if (succeeded.length === 0) {
+      return [];
+    }
+
+    const checkable = (rule: string) => {
+      const prefix = rule.slice(0, rule.indexOf('/'));
+      return !(LINTER_IDS as readonly string[]).includes(prefix) || succeeded.includes(prefix as LinterName);
+    };
+
+    // Issues need a linter source: prefer one the directive names. Reporters list
+    // them under lintmesh, apart from every linter run
+    const attribute = (rules: string[]): LinterName => {
+      const named = rules.map(rule => rule.slice(0, rule.indexOf('/'))).find(prefix => succeeded.includes(prefix as LinterName));
+      return (named as LinterName | undefined) ?? succeeded[0];
+    };
+
+    const issues: Issue[] = [];
+    for (const directive of [...this.directives.values()].flat()) {
+      const location = {
+        path: directive.path,
+        line: directive.line,
+        column: directive.column,
+        endLine: directive.line,
+        endColumn: directive.endColumn,
+      };
+
+      if (this.requireReason && !directive.reason) {
+        issues.push({
+          ...location,
+          severity: 'error',
+          ruleId: MISSING_REASON_RULE,
+          canonicalRuleId: ruleKey(MISSING_REASON_RULE),
+          message: `lintmesh-ignore-${directive.kind} needs a reason: add "-- <reason>" after the rules.`,
+          source: attribute(directive.rules),
+        });
+        continue;
+      }
+
+      if (!this.reportUnused) continue;
+
+      const used = this.usedRules.get(directive);
+      const unused = directive.rules.length === 0
+        ? (used ? [] : ['*'])
+        : directive.rules.filter(rule => !used?.has(rule) && checkable(rule));
+      if (unused.length === 0) continue;
+
+      const detail = unused[0] === '*'
+        ? 'no issues were reported'
+        : `no issues were reported for ${unused.map(rule => `'${rule}'`).join(', ')}`;
+      issues.push({
+        ...location,
+        severity: 'warning',
+        ruleId: UNUSED_SUPPRESSION_RULE,
+        canonicalRuleId: ruleKey(UNUSED_SUPPRESSION_RULE),
+        message: `Unused lintmesh-ignore-${directive.kind} directive (${detail}).`,
+        source: attribute(unused),
+      });
+    }
+
+    return issues;
+  }
+}
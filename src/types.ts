@@ -1,3 +1,11 @@
+import type { Config } from './config.js';
+import type { Baseline, BaselineReport } from './baseline.js';
+import type { SuppressionOptions } from './suppressions.js';
+import type { RuleSetting } from './rules.js';
+import type { ConfigScope, Override } from './overrides.js';
+import type { ChangedFiles } from './utils/git.js';
+import type { FilePatch, FixReport } from './fixer.js';
+
 /**
  * Severity levels normalized across all linters
  */
@@ -28,6 +36,17 @@ export interface Fix {
   replacements: Replacement[];
 }
 
+/**
+ * An edit a linter proposes but won't apply automatically, because it may
+ * change behavior
+ */
+export interface Suggestion {
+  /** What the suggestion does */
+  description: string;
+  /** Edits to make; absent when the linter only describes the change */
+  fix?: Fix;
+}
+
 /**
  * Metadata about a lint rule
  */
@@ -56,18 +75,43 @@ export interface Issue {
   endColumn: number;
   /** Issue severity */
   severity: Severity;
+  /** Severity reported by the linter, when the config's `rules` map changed it */
+  originalSeverity?: Severity;
   /** Namespaced rule identifier (e.g., "eslint/no-unused-vars") */
   ruleId: string;
+  /** Linter-independent rule identifier (e.g., "no-unused-vars" for biome/noUnusedVariables) */
+  canonicalRuleId?: string;
   /** Human-readable message */
   message: string;
   /** Which linter found this issue */
   source: LinterName;
-  /** Optional autofix suggestion */
+  /** Workspace package the file belongs to (set with --workspaces) */
+  package?: string;
+  /** All linters that reported this issue, most trusted first (set when duplicates were merged) */
+  sources?: LinterName[];
+  /** Safe autofix, applied by --fix */
   fix?: Fix;
+  /** Possibly unsafe edits, never applied automatically */
+  suggestions?: Suggestion[];
   /** Optional rule metadata */
   meta?: RuleMeta;
 }
 
+/**
+ * Where a linter binary was found: the config's `bin`, cwd/node_modules/.bin,
+ * PATH, or node_modules/.bin in a parent directory
+ */
+export type BinSource = 'config' | 'local' | 'path' | 'parent';
+
+/**
+ * A located linter binary
+ */
+export interface ResolvedBin {
+  /** Path to the binary */
+  path: string;
+  source: BinSource;
+}
+
 /**
  * Information about a single linter's execution
  */
@@ -84,6 +128,12 @@ export interface LinterRun {
   durationMs: number;
   /** Number of files that were linted */
   filesProcessed: number;
+  /** Workspace package the linter ran in (set with --workspaces) */
+  package?: string;
+  /** Binary that was run */
+  binPath?: string;
+  /** Where the binary was found */
+  binSource?: BinSource;
 }
 
 /**
@@ -100,6 +150,10 @@ export interface Summary {
   info: number;
   /** Number of issues with available autofixes */
   fixable: number;
+  /** Number of issues with suggestions */
+  suggestions: number;
+  /** Number of issues hidden because they are in the baseline */
+  suppressed?: number;
 }
 
 /**
@@ -118,8 +172,43 @@ export interface VibelintOutput {
   issues: Issue[];
   /** Summary counts */
   summary: Summary;
+  /** Baseline results, when a baseline file was applied */
+  baseline?: BaselineReport;
+  /** Fix loop results, when run with --fix */
+  fixes?: FixReport;
+  /** Fixes that would be applied, when run with --fix-dry-run */
+  patches?: FilePatch[];
 }
 
+/**
+ * Context passed to a reporter
+ */
+export interface ReporterContext {
+  /** Working directory */
+  cwd: string;
+  /** Pretty-print structured output */
+  pretty: boolean;
+  /** Emit ANSI colors (only when writing to a terminal) */
+  colors: boolean;
+  /** Parsed config file (empty when none was found) */
+  config: Config;
+  /** Environment variables */
+  env: Record<string, string | undefined>;
+  /** Destination stream (stdout or the output file) */
+  stream: NodeJS.WritableStream;
+  /** Options from the reporter's config entry (custom reporters only) */
+  options?: Record<string, unknown>;
+}
+
+/**
+ * Formats a lint run for a particular consumer.
+ * Returns the text to write, or writes to ctx.stream itself and returns nothing.
+ */
+export type Reporter = (
+  output: VibelintOutput,
+  ctx: ReporterContext
+) => string | void | Promise<string | void>;
+
 /**
  * Options passed to a linter adapter
  */
@@ -163,11 +252,20 @@ export interface Linter {
   /** Unique linter identifier */
   readonly name: LinterName;
 
+  /**
+   * Whether issues carry Fix replacements. lintmesh applies those itself,
+   * so the linter's own fix flag is not passed.
+   */
+  readonly reportsFixes?: boolean;
+
+  /** Locate the linter's binary for a working directory */
+  findBinary(cwd: string): ResolvedBin | null;
+
   /** Check if linter is available on the system */
-  isAvailable(): Promise<boolean>;
+  isAvailable(cwd: string): Promise<boolean>;
 
   /** Get the linter's version string */
-  getVersion(): Promise<string>;
+  getVersion(cwd: string): Promise<string>;
 
   /** Execute the linter and return normalized results */
   run(options: LinterOptions): Promise<LinterResult>;
@@ -177,6 +275,8 @@ export interface Linter {
  * Per-linter configuration from config file
  */
 export interface LinterConfigArgs {
+  /** Binary to run instead of searching for one (absolute path or command name) */
+  bin?: string;
   /** Extra arguments to append to linter command */
   args?: string[];
 }
@@ -209,6 +309,34 @@ export interface CliOptions {
   interactive: boolean;
   /** Auto-fix issues where possible */
   fix: boolean;
+  /** Compute fixes as patches without writing them */
+  fixDryRun?: boolean;
+  /** Only apply fixes for these rule IDs or canonical rule IDs */
+  fixRules?: string[];
+  /** Only apply fixes reported by these linters */
+  fixSources?: LinterName[];
   /** Per-linter configuration from config file */
   linterConfigs?: Partial<Record<LinterName, LinterConfigArgs>>;
+  /** Known issues to hide from the results */
+  baseline?: Baseline;
+  /** Restrict linting and results to files changed in git */
+  changes?: ChangedFiles;
+  /** With changes, also drop issues outside the changed lines */
+  onlyChangedLines?: boolean;
+  /** Extra rule equivalences from config, canonical rule ID to linter rule IDs */
+  ruleEquivalences?: Record<string, string[]>;
+  /** Merge duplicate issues across linters, preferring linters earlier in priority */
+  merge?: { priority: LinterName[] };
+  /** Severity overrides keyed by rule ID, canonical rule ID or glob */
+  rules?: Record<string, RuleSetting>;
+  /** Settings for files matching globs, applied in order */
+  overrides?: Override[];
+  /** Directory of the config file, relative to cwd; override globs are relative to it */
+  configDir?: string;
+  /** Settings from config files in subdirectories, for the files below them */
+  scopes?: ConfigScope[];
+  /** Options for inline lintmesh-ignore comments */
+  suppressions?: SuppressionOptions;
+  /** Run linters once per workspace package, in the package's directory */
+  workspaces?: boolean;
 }
@@ -0,0 +1,89 @@
+import { accessSync, constants, existsSync, statSync } from 'node:fs';
+import path from 'node:path';
+import type { ResolvedBin } from '../types.js';
+
+/**
+ * Check if a file exists and can be executed
+ */
+function isExecutable(filePath: string): boolean {
+  try {
+    accessSync(filePath, constants.X_OK);
+    return statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Look up a command on PATH, like `which`
+ */
+function findOnPath(name: string): string | undefined {
+  const extensions = process.platform === 'win32'
+    ? ['', ...(process.env.PATHEXT ?? '.EXE;.CMD;.BAT').split(';')]
+    : [''];
+  for (const dir of (process.env.PATH ?? '').split(path.delimiter).filter(Boolean)) {
+    for (const ext of extensions) {
+      const candidate = path.join(dir, name + ext);
+      if (isExecutable(candidate)) {
+        return candidate;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check node_modules/.bin in a directory
+ */
+function findInNodeModules(dir: string, name: string): string | undefined {
+  const binPath = path.join(dir, 'node_modules', '.bin', name);
+  return existsSync(binPath) ? binPath : undefined;
+}
+
+/**
+ * Resolve a linter binary. An explicit `bin` from config is used as given
+ * (a path relative to cwd, or a command on PATH) and nothing else is tried.
+ * Otherwise each place is searched in turn for each name:
+ * cwd/node_modules/.bin, then PATH, then node_modules/.bin in each parent
+ * directory for hoisted installs.
+ * @param names Binary names, preferred first (e.g., tsgo before tsc)
+ * @param configured The config's `bin` for the linter
+ */
+export function resolveBin(names: string[], cwd: string, configured?: string | null): ResolvedBin | null {
+  if (configured) {
+    const binPath = configured.includes('/') || configured.includes(path.sep)
+      ? path.resolve(cwd, configured)
+      : findOnPath(configured);
+    return binPath && existsSync(binPath) ? { path: binPath, source: 'config' } : null;
+  }
+
+  for (const name of names) {
+    const local = findInNodeModules(cwd, name);
+    if (local) return { path: local, source: 'local' };
+  }
+
+  for (const name of names) {
+    const onPath = findOnPath(name);
+    if (onPath) return { path: onPath, source: 'path' };
+  }
+
+  let dir = cwd;
+  while (path.dirname(dir) !== dir) {
+    dir = path.dirname(dir);
+    for (const name of names) {
+      const hoisted = findInNodeModules(dir, name);
+      if (hoisted) return { path: hoisted, source: 'parent' };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Error message for a binary resolveBin couldn't find
+ */
+export function missingBinMessage(names: string[], configured?: string | null): string {
+  return configured
+    ? `${configured} not found (bin in config)`
+    : `${names.join(' or ')} not found in node_modules/.bin, on PATH or in a parent node_modules/.bin`;
+}
@@ -11,7 +11,12 @@ const YELLOW = '\x1b[33m';
 const CYAN = '\x1b[36m';
 const GRAY = '\x1b[90m';
 
+// OSC 8 hyperlink escape: ESC ] 8 ; params ; URI ST
+const OSC8_START = '\x1b]8;;';
+const OSC8_END = '\x1b\\';
+
 type ColorFn = (text: string) => string;
+type LinkFn = (text: string, url: string) => string;
 
 interface Colors {
   red: ColorFn;
@@ -20,6 +25,8 @@ interface Colors {
   gray: ColorFn;
   dim: ColorFn;
   bold: ColorFn;
+  /** Terminal hyperlink (OSC 8); plain text when disabled */
+  link: LinkFn;
 }
 
 function createColors(enabled: boolean): Colors {
@@ -32,6 +39,7 @@ function createColors(enabled: boolean): Colors {
       gray: identity,
       dim: identity,
       bold: identity,
+      link: (text) => text,
     };
   }
 
@@ -42,6 +50,7 @@ function createColors(enabled: boolean): Colors {
     gray: (text) => `${GRAY}${text}${RESET}`,
     dim: (text) => `${DIM}${text}${RESET}`,
     bold: (text) => `${BOLD}${text}${RESET}`,
+    link: (text, url) => `${OSC8_START}${url}${OSC8_END}${text}${OSC8_START}${OSC8_END}`,
   };
 }
 
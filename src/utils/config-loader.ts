@@ -1,17 +1,28 @@
 import { readFileSync, existsSync } from 'node:fs';
+import { createRequire } from 'node:module';
 import path from 'node:path';
+import fg from 'fast-glob';
 import stripJsonComments from 'strip-json-comments';
 import { ConfigSchema, CONFIG_FILES, CONFIG_DEFAULTS, type Config, type LinterId } from '../config.js';
+import { DEFAULT_IGNORE } from './files.js';
 
 export interface LoadedConfig {
   /** Path to loaded config file, or null if using defaults */
   configPath: string | null;
+  /** Directory the config file applies to (the parent of a .config directory), or null if using defaults */
+  configDir: string | null;
   /** Parsed and validated config */
   config: Config;
   /** Which linters are enabled (from config or defaults) */
   enabledLinters: LinterId[];
+  /** Config files merged into config, in merge order: parent directories' configs and presets first, configPath last */
+  files: string[];
+  /** File each value came from, keyed by dotted path (e.g., "linters.eslint.args") */
+  sources: Record<string, string>;
 }
 
+type RawConfig = Record<string, unknown>;
+
 /**
  * Find config file in project
  */
@@ -34,23 +45,211 @@ function parseJsonc(content: string): unknown {
 }
 
 /**
- * Load config from file
+ * Read and validate one config file, without applying schema defaults
  */
-export function loadConfig(cwd: string): LoadedConfig {
-  const configPath = findConfigFile(cwd);
+function readConfigFile(filePath: string): RawConfig {
+  const parsed = parseJsonc(readFileSync(filePath, 'utf-8'));
+  const result = ConfigSchema.safeParse(parsed);
 
-  if (!configPath) {
-    // No config - return empty (caller uses CLI defaults)
-    return {
-      configPath: null,
-      config: {},
-      enabledLinters: [],
+  if (!result.success) {
+    throw new Error(`Invalid config in ${filePath}: ${result.error.message}`);
+  }
+
+  return parsed as RawConfig;
+}
+
+/**
+ * Resolve an extends entry: a path relative to the extending file, or a
+ * package (or a file in one) in node_modules
+ */
+function resolvePreset(entry: string, fromFile: string): string {
+  if (entry.startsWith('.') || path.isAbsolute(entry)) {
+    const filePath = path.resolve(path.dirname(fromFile), entry);
+    if (!existsSync(filePath)) {
+      throw new Error(`Preset not found: ${entry} (extended from ${fromFile})`);
+    }
+    return filePath;
+  }
+
+  try {
+    return createRequire(fromFile).resolve(entry);
+  } catch {
+    throw new Error(`Preset not found: ${entry} (extended from ${fromFile}); is the package installed?`);
+  }
+}
+
+/**
+ * Directory a config file applies to: its own, or the parent of a .config directory
+ */
+function configDirOf(filePath: string): string {
+  const dir = path.dirname(filePath);
+  return path.basename(dir) === '.config' ? path.dirname(dir) : dir;
+}
+
+/**
+ * Make a layer's relative paths absolute, so they point at the same files
+ * wherever the layer ends up merged. A linter `bin` (when it is a path rather
+ * than a command name) and reporter modules are relative to the file that sets
+ * them; override globs to the config the file applies to, so a preset's globs
+ * name files in the project using it.
+ * @param globDir Directory of the config in the cascade, for presets the one extending them
+ */
+function rebasePaths(config: RawConfig, filePath: string, globDir: string, isPreset: boolean): RawConfig {
+  const { linters, reporters, overrides } = config as Config;
+  const binDir = isPreset ? path.dirname(filePath) : globDir;
+  const rebased: RawConfig = { ...config };
+
+  if (linters) {
+    rebased.linters = Object.fromEntries(Object.entries(linters).map(([id, linter]) => [
+      id,
+      linter?.bin && /[\\/]/.test(linter.bin) ? { ...linter, bin: path.resolve(binDir, linter.bin) } : linter,
+    ]));
+  }
+
+  if (reporters) {
+    rebased.reporters = reporters.map(reporter =>
+      'module' in reporter ? { ...reporter, module: path.resolve(path.dirname(filePath), reporter.module) } : reporter
+    );
+  }
+
+  if (overrides) {
+    const base = fg.convertPathToPattern(globDir);
+    const rebase = (glob: string) => {
+      const negated = glob.startsWith('!');
+      const pattern = negated ? glob.slice(1) : glob;
+      const absolute = path.isAbsolute(pattern) ? pattern : path.posix.join(base, pattern);
+      return negated ? `!${absolute}` : absolute;
     };
+    rebased.overrides = overrides.map(override => ({
+      ...override,
+      files: override.files.map(rebase),
+      ...(override.excludeFiles && { excludeFiles: override.excludeFiles.map(rebase) }),
+    }));
   }
 
-  const content = readFileSync(configPath, 'utf-8');
-  const parsed = parseJsonc(content);
-  const result = ConfigSchema.safeParse(parsed);
+  return rebased;
+}
+
+/**
+ * A config file and its presets, flattened into merge order: each file's
+ * presets (in listed order, recursively) come before the file itself
+ */
+function collectLayers(
+  filePath: string,
+  chain: string[],
+  globDir = configDirOf(filePath)
+): Array<{ file: string; config: RawConfig }> {
+  if (chain.includes(filePath)) {
+    throw new Error(`Circular extends: ${[...chain, filePath].join(' -> ')}`);
+  }
+
+  const { extends: presets, ...config } = readConfigFile(filePath);
+  const entries = presets === undefined ? [] : [presets as string | string[]].flat();
+
+  return [
+    ...entries.flatMap(entry => collectLayers(resolvePreset(entry, filePath), [...chain, filePath], globDir)),
+    { file: filePath, config: rebasePaths(config, filePath, globDir, chain.length > 0) },
+  ];
+}
+
+function isPlainObject(value: unknown): value is RawConfig {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Record `file` as the source of every value in `value`
+ */
+function recordSources(value: unknown, keyPath: string, file: string, sources: Record<string, string>): void {
+  if (isPlainObject(value) && Object.keys(value).length > 0) {
+    for (const [key, nested] of Object.entries(value)) {
+      recordSources(nested, `${keyPath}.${key}`, file, sources);
+    }
+  } else {
+    sources[keyPath] = file;
+  }
+}
+
+/**
+ * Merge a config layer over the result so far: objects (like `linters`) merge
+ * key by key, anything else, including arrays, replaces
+ */
+function mergeLayer(
+  base: RawConfig,
+  layer: RawConfig,
+  file: string,
+  sources: Record<string, string>,
+  prefix = ''
+): RawConfig {
+  const merged = { ...base };
+
+  for (const [key, value] of Object.entries(layer)) {
+    const keyPath = prefix ? `${prefix}.${key}` : key;
+    const current = merged[key];
+
+    if (isPlainObject(value) && isPlainObject(current)) {
+      merged[key] = mergeLayer(current, value, file, sources, keyPath);
+      continue;
+    }
+
+    for (const recorded of Object.keys(sources)) {
+      if (recorded === keyPath || recorded.startsWith(`${keyPath}.`)) {
+        delete sources[recorded];
+      }
+    }
+    merged[key] = value;
+    recordSources(value, keyPath, file, sources);
+  }
+
+  return merged;
+}
+
+/**
+ * Nearest directory at or above `dir` containing .git, if any
+ */
+function findRepoRoot(dir: string): string | null {
+  for (let current = dir; ; current = path.dirname(current)) {
+    if (existsSync(path.join(current, '.git'))) {
+      return current;
+    }
+    if (current === path.dirname(current)) {
+      return null;
+    }
+  }
+}
+
+/**
+ * Config files that apply to `dir`, outermost first: the nearest one and
+ * those in parent directories up to (not including) `stopDir`, or up to one
+ * marked `root: true`
+ */
+function findCascade(dir: string, stopDir: string | null): Array<{ dir: string; configPath: string }> {
+  const cascade: Array<{ dir: string; configPath: string }> = [];
+
+  for (let current = dir; current !== stopDir; current = path.dirname(current)) {
+    const configPath = findConfigFile(current);
+    if (configPath) {
+      cascade.unshift({ dir: current, configPath });
+      if (readConfigFile(configPath).root === true) break;
+    }
+    if (current === path.dirname(current)) break;
+  }
+
+  return cascade;
+}
+
+/**
+ * Merge config files (and their presets) over a base config and validate the result
+ */
+function mergeConfigs(
+  configPaths: string[],
+  configDir: string,
+  base: RawConfig = {}
+): LoadedConfig {
+  const configPath = configPaths[configPaths.length - 1];
+  const layers = configPaths.flatMap(filePath => collectLayers(filePath, []));
+  const sources: Record<string, string> = {};
+  const merged = layers.reduce<RawConfig>((acc, layer) => mergeLayer(acc, layer.config, layer.file, sources), base);
+  const result = ConfigSchema.safeParse(merged);
 
   if (!result.success) {
     throw new Error(`Invalid config in ${configPath}: ${result.error.message}`);
@@ -70,11 +269,85 @@ export function loadConfig(cwd: string): LoadedConfig {
 
   return {
     configPath,
+    configDir,
     config,
     enabledLinters,
+    files: layers.map(layer => layer.file),
+    sources,
   };
 }
 
+/**
+ * Load config for a directory: the nearest config file, merged over those in
+ * parent directories up to the git repository root (or one marked
+ * `root: true`), with any presets they extend. Outside a repository only
+ * cwd is searched.
+ */
+export function loadConfig(cwd: string): LoadedConfig {
+  const repoRoot = findRepoRoot(cwd);
+  const cascade = findCascade(cwd, repoRoot ? path.dirname(repoRoot) : path.dirname(cwd));
+
+  if (cascade.length === 0) {
+    // No config - return empty (caller uses CLI defaults)
+    return {
+      configPath: null,
+      configDir: null,
+      config: {},
+      enabledLinters: [],
+      files: [],
+      sources: {},
+    };
+  }
+
+  return mergeConfigs(cascade.map(c => c.configPath), cascade[cascade.length - 1].dir);
+}
+
+/**
+ * Configs in subdirectories of cwd, each merged over the configs above it
+ * (starting from `parent`, the config loaded for cwd) unless marked
+ * `root: true`. Sorted by directory, so parents come before children.
+ */
+export function loadNestedConfigs(parent: LoadedConfig, cwd: string): LoadedConfig[] {
+  const matches = fg.sync(CONFIG_FILES.map(file => `**/${file}`), {
+    cwd,
+    ignore: DEFAULT_IGNORE,
+    dot: true,
+  });
+
+  const dirs = new Set(matches.map(match => {
+    const dir = path.dirname(match);
+    return path.resolve(cwd, path.basename(dir) === '.config' ? path.dirname(dir) : dir);
+  }));
+  dirs.delete(path.resolve(cwd));
+
+  // Configs between a nested directory and cwd (exclusive) merge over the parent
+  return [...dirs].sort().map(dir => {
+    const cascade = findCascade(dir, path.resolve(cwd));
+    const isRoot = readConfigFile(cascade[0].configPath).root === true;
+    return mergeConfigs(cascade.map(c => c.configPath), dir, isRoot ? {} : parent.config as RawConfig);
+  });
+}
+
+/**
+ * Describe which file each config value came from, for --verbose.
+ * Empty unless the config extends presets.
+ */
+export function describeConfigSources(loaded: LoadedConfig, cwd: string): string[] {
+  if (loaded.files.length < 2) {
+    return [];
+  }
+
+  const display = (file: string) => path.relative(cwd, file) || file;
+  const [own] = loaded.files.slice(-1);
+  const presets = loaded.files.slice(0, -1);
+  return [
+    `config ${display(own)} extends ${presets.map(display).join(', ')}`,
+    ...Object.entries(loaded.sources)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([keyPath, file]) => `  ${keyPath}: ${display(file)}`),
+  ];
+}
+
 /**
  * Get resolved config values with defaults applied
  */
@@ -2,6 +2,8 @@ import { exec as execCmd } from './exec.js';
 import { existsSync, readFileSync } from 'node:fs';
 import path from 'node:path';
 import type { LinterId } from '../config.js';
+import type { BinSource } from '../types.js';
+import { resolveBin } from './bin.js';
 
 /**
  * Linter metadata for detection
@@ -61,7 +63,7 @@ export interface DetectionResult {
   /** Resolved binary path (if found) */
   binPath?: string;
   /** Where binary was found */
-  binSource?: 'local' | 'path';
+  binSource?: BinSource;
   /** Version string */
   version?: string;
   /** Whether config file exists */
@@ -74,36 +76,6 @@ export interface DetectionResult {
   recommended: boolean;
 }
 
-/**
- * Check if a binary exists in node_modules/.bin
- */
-function findLocalBinary(cwd: string, binaries: string[]): string | undefined {
-  for (const bin of binaries) {
-    const localPath = path.join(cwd, 'node_modules', '.bin', bin);
-    if (existsSync(localPath)) {
-      return localPath;
-    }
-  }
-  return undefined;
-}
-
-/**
- * Check if a binary exists on PATH
- */
-async function findPathBinary(binaries: string[]): Promise<string | undefined> {
-  for (const bin of binaries) {
-    try {
-      const result = await execCmd('which', [bin], { timeout: 5000, cwd: process.cwd() });
-      if (result.exitCode === 0 && result.stdout.trim()) {
-        return result.stdout.trim();
-      }
-    } catch {
-      // not found, try next
-    }
-  }
-  return undefined;
-}
-
 /**
  * Find config file for a linter
  */
@@ -157,11 +129,10 @@ async function getVersion(binPath: string, versionArg: string): Promise<string |
 export async function detectLinter(linterId: LinterId, cwd: string): Promise<DetectionResult> {
   const meta = LINTER_META[linterId];
 
-  // Find binary
-  const localBin = findLocalBinary(cwd, meta.binaries);
-  const pathBin = localBin ? undefined : await findPathBinary(meta.binaries);
-  const binPath = localBin || pathBin;
-  const binSource = localBin ? 'local' : pathBin ? 'path' : undefined;
+  // Find binary the same way the adapters do
+  const binary = resolveBin(meta.binaries, cwd);
+  const binPath = binary?.path;
+  const binSource = binary?.source;
 
   // Get version if binary found
   const version = binPath ? await getVersion(binPath, meta.versionArg) : undefined;
@@ -0,0 +1,131 @@
+/**
+ * Minimal line-based unified diff, in the format `git apply` accepts
+ */
+
+type Edit = { op: ' ' | '-' | '+'; line: string };
+
+/**
+ * Split text into lines, keeping each line's terminator so that a missing
+ * final newline shows up as a difference
+ */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Shortest edit script between two line arrays (Myers' algorithm)
+ */
+function diffLines(a: string[], b: string[]): Edit[] {
+  const n = a.length;
+  const m = b.length;
+  const offset = n + m + 1;
+  const trace: Int32Array[] = [];
+  let v = new Int32Array(2 * offset + 1);
+
+  search: for (let d = 0; d <= n + m; d++) {
+    trace.push(v);
+    v = v.slice();
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) break search;
+    }
+  }
+
+  // Walk back through the saved frontiers to recover the edits
+  const edits: Edit[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const frontier = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && frontier[offset + k - 1] < frontier[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : frontier[offset + prevK];
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      edits.push({ op: ' ', line: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        edits.push({ op: '+', line: b[--y] });
+      } else {
+        edits.push({ op: '-', line: a[--x] });
+      }
+    }
+  }
+
+  return edits.reverse();
+}
+
+/**
+ * Format one diff line, marking a line without a trailing newline
+ */
+function formatLine(op: Edit['op'], line: string): string {
+  return line.endsWith('\n')
+    ? `${op}${line}`
+    : `${op}${line}\n\\ No newline at end of file\n`;
+}
+
+/**
+ * Build a unified diff for one file. Returns an empty string when the
+ * contents are identical.
+ * @param filePath Path used in the a/ and b/ headers
+ * @param context Unchanged lines shown around each change
+ */
+export function createUnifiedDiff(filePath: string, oldText: string, newText: string, context = 3): string {
+  if (oldText === newText) {
+    return '';
+  }
+
+  const edits = diffLines(splitLines(oldText), splitLines(newText));
+
+  // Old/new line numbers (0-indexed) before each edit
+  const positions: Array<{ oldLine: number; newLine: number }> = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const edit of edits) {
+    positions.push({ oldLine, newLine });
+    if (edit.op !== '+') oldLine++;
+    if (edit.op !== '-') newLine++;
+  }
+
+  // Group changes into hunks, joining those separated by little context
+  const hunks: Array<[start: number, end: number]> = [];
+  edits.forEach((edit, i) => {
+    if (edit.op === ' ') return;
+    const start = Math.max(0, i - context);
+    const end = Math.min(edits.length, i + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = end;
+    } else {
+      hunks.push([start, end]);
+    }
+  });
+
+  let diff = `diff --git a/${filePath} b/${filePath}\n--- a/${filePath}\n+++ b/${filePath}\n`;
+  for (const [start, end] of hunks) {
+    const slice = edits.slice(start, end);
+    const oldCount = slice.filter(e => e.op !== '+').length;
+    const newCount = slice.filter(e => e.op !== '-').length;
+    // An empty range is numbered by the line before it
+    const oldStart = positions[start].oldLine + (oldCount > 0 ? 1 : 0);
+    const newStart = positions[start].newLine + (newCount > 0 ? 1 : 0);
+
+    diff += `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@\n`;
+    for (const edit of slice) {
+      diff += formatLine(edit.op, edit.line);
+    }
+  }
+
+  return diff;
+}
@@ -13,12 +13,13 @@ export interface ExecResult {
 export async function exec(
   command: string,
   args: string[],
-  options: { timeout: number; cwd: string }
+  options: { timeout: number; cwd: string; env?: Record<string, string> }
 ): Promise<ExecResult> {
   try {
     const result = await execa(command, args, {
       timeout: options.timeout,
       cwd: options.cwd,
+      env: options.env,
       reject: false,
     });
 
@@ -4,22 +4,23 @@ const SEVERITY_ORDER: Severity[] = ['info', 'warning', 'error'];
 
 /**
  * Compute the exit code based on issues and threshold
+ * @param failOnForPath Threshold for a file, when it differs between files (config overrides)
  * @returns 0 = no issues at/above threshold, 1 = issues found, 2 = all linters failed
  */
 export function computeExitCode(
   output: VibelintOutput,
   failOn: Severity,
-  allLintersFailed: boolean
+  allLintersFailed: boolean,
+  failOnForPath?: (filePath: string) => Severity
 ): number {
   if (allLintersFailed) {
     return 2;
   }
 
-  const threshold = SEVERITY_ORDER.indexOf(failOn);
-
-  const hasIssuesAtOrAbove = output.issues.some(
-    issue => SEVERITY_ORDER.indexOf(issue.severity) >= threshold
-  );
+  const hasIssuesAtOrAbove = output.issues.some(issue => {
+    const threshold = SEVERITY_ORDER.indexOf(failOnForPath?.(issue.path) ?? failOn);
+    return SEVERITY_ORDER.indexOf(issue.severity) >= threshold;
+  });
 
   return hasIssuesAtOrAbove ? 1 : 0;
 }
@@ -4,7 +4,7 @@ import path from 'node:path';
 
 const FILE_EXTENSIONS = '*.{ts,tsx,js,jsx,mjs,cjs}';
 const DEFAULT_PATTERNS = [`**/${FILE_EXTENSIONS}`];
-const DEFAULT_IGNORE = ['**/node_modules/**', '**/dist/**', '**/build/**', '**/.git/**'];
+export const DEFAULT_IGNORE = ['**/node_modules/**', '**/dist/**', '**/build/**', '**/.git/**'];
 
 /**
  * Expand a pattern to include file extensions if it's a directory
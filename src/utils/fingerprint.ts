@@ -0,0 +1,31 @@
+import { createHash } from 'node:crypto';
+import type { Issue } from '../types.js';
+
+/**
+ * Hash the location-independent identity of an issue.
+ * Line and column are left out so the hash survives unrelated edits
+ * that shift code up or down.
+ */
+function hashIssue(issue: Issue): string {
+  return createHash('sha256')
+    .update(`${issue.path}\0${issue.ruleId}\0${issue.message}`)
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Compute a stable fingerprint for each issue, in input order.
+ * Issues with identical path/rule/message are disambiguated by their
+ * occurrence index within the file, so fingerprints stay unique.
+ * Expects issues sorted by file then line (as produced by runLinters).
+ */
+export function computeFingerprints(issues: Issue[]): string[] {
+  const occurrences = new Map<string, number>();
+
+  return issues.map(issue => {
+    const hash = hashIssue(issue);
+    const occurrence = (occurrences.get(hash) ?? 0) + 1;
+    occurrences.set(hash, occurrence);
+    return `${hash}:${occurrence}`;
+  });
+}
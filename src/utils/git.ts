@@ -0,0 +1,161 @@
+import path from 'node:path';
+import { exec } from './exec.js';
+import type { Issue } from '../types.js';
+
+/** Inclusive 1-indexed line range */
+export type LineRange = [start: number, end: number];
+
+/**
+ * Changed files relative to cwd, each with its changed line ranges.
+ * 'all' marks files where every line counts as changed (untracked files).
+ */
+export type ChangedFiles = Map<string, LineRange[] | 'all'>;
+
+export interface GitDiffOptions {
+  /** Compare against the merge base with this ref; omit for uncommitted changes vs HEAD */
+  since?: string;
+  /** Only changes staged in the index (ignores since and untracked files) */
+  staged?: boolean;
+  /** Timeout for each git command */
+  timeout?: number;
+}
+
+const GIT_TIMEOUT = 30000;
+
+/**
+ * Run a git command, throwing with git's stderr on failure. env adds to the
+ * inherited environment. Paths in the
+ * output are only quoted when they contain control characters, quotes or
+ * backslashes, not for every non-ASCII character.
+ */
+export async function runGit(
+  args: string[],
+  cwd: string,
+  timeout = GIT_TIMEOUT,
+  env?: Record<string, string>
+): Promise<string> {
+  const result = await exec('git', ['-c', 'core.quotePath=false', ...args], { timeout, cwd, env });
+  if (result.exitCode !== 0) {
+    const detail = result.stderr.trim() || `exit code ${result.exitCode}`;
+    throw new Error(`git ${args[0]} failed: ${detail}`);
+  }
+  return result.stdout;
+}
+
+const C_ESCAPES: Record<string, number> = { a: 7, b: 8, f: 12, n: 10, r: 13, t: 9, v: 11, '"': 34, '\\': 92 };
+
+/**
+ * Undo git's C-style quoting of a path ("a\tb", "na\303\257ve"). Octal
+ * escapes are UTF-8 bytes.
+ */
+export function unquoteGitPath(quoted: string): string {
+  if (!quoted.startsWith('"') || !quoted.endsWith('"')) {
+    return quoted;
+  }
+  const bytes: number[] = [];
+  const body = quoted.slice(1, -1);
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] !== '\\') {
+      bytes.push(...Buffer.from(body[i]));
+      continue;
+    }
+    const octal = body.slice(i + 1, i + 4);
+    if (/^[0-7]{3}$/.test(octal)) {
+      bytes.push(parseInt(octal, 8));
+      i += 3;
+    } else {
+      i++;
+      bytes.push(C_ESCAPES[body[i]] ?? body.charCodeAt(i));
+    }
+  }
+  return Buffer.from(bytes).toString('utf-8');
+}
+
+/**
+ * Parse `git diff -U0` output into added/modified line ranges per file.
+ * Pure deletions add no lines and are skipped.
+ */
+export function parseUnifiedDiff(diff: string): ChangedFiles {
+  const changed: ChangedFiles = new Map();
+  let current: LineRange[] | null = null;
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('+++ ')) {
+      // git appends a tab to names containing spaces
+      const target = unquoteGitPath(line.slice(4).replace(/\t$/, ''));
+      if (target === '/dev/null') {
+        current = null;
+        continue;
+      }
+      const filePath = target.replace(/^b\//, '');
+      current = [];
+      changed.set(filePath, current);
+      continue;
+    }
+
+    const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+    if (hunk && current) {
+      const start = parseInt(hunk[1], 10);
+      const count = hunk[2] === undefined ? 1 : parseInt(hunk[2], 10);
+      if (count > 0) {
+        current.push([start, start + count - 1]);
+      }
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Collect files and lines changed in the working tree, either since the
+ * merge base with a ref or (by default) since HEAD. Untracked files count
+ * as entirely changed. With staged, only the index is compared to HEAD.
+ * Paths are relative to cwd.
+ */
+export async function getChangedFiles(cwd: string, options: GitDiffOptions = {}): Promise<ChangedFiles> {
+  const timeout = options.timeout ?? GIT_TIMEOUT;
+  // Fixed prefixes, whatever diff.noprefix or diff.mnemonicPrefix say
+  const diffArgs = [
+    'diff', '--relative', '--no-color', '--no-ext-diff', '--diff-filter=ACMR', '-U0',
+    '--src-prefix=a/', '--dst-prefix=b/',
+  ];
+
+  if (options.staged) {
+    return parseUnifiedDiff(await runGit([...diffArgs, '--cached'], cwd, timeout));
+  }
+
+  const base = options.since
+    ? (await runGit(['merge-base', options.since, 'HEAD'], cwd, timeout)).trim()
+    : 'HEAD';
+
+  const changed = parseUnifiedDiff(await runGit([...diffArgs, base], cwd, timeout));
+
+  const untracked = await runGit(['ls-files', '-z', '--others', '--exclude-standard'], cwd, timeout);
+  for (const file of untracked.split('\0')) {
+    if (file) {
+      changed.set(file, 'all');
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Keep absolute file paths that are in the changed set
+ */
+export function filterChangedFiles(files: string[], changed: ChangedFiles, cwd: string): string[] {
+  return files.filter(file => changed.has(path.relative(cwd, file)));
+}
+
+/**
+ * Keep issues in changed files. With onlyChangedLines, also require the
+ * issue's line..endLine range to overlap a changed line range.
+ */
+export function filterChangedIssues(issues: Issue[], changed: ChangedFiles, onlyChangedLines: boolean): Issue[] {
+  return issues.filter(issue => {
+    const ranges = changed.get(issue.path);
+    if (ranges === undefined) return false;
+    if (!onlyChangedLines || ranges === 'all') return true;
+    return ranges.some(([start, end]) => issue.line <= end && issue.endLine >= start);
+  });
+}
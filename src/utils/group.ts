@@ -0,0 +1,44 @@
+import type { Issue, LinterRun } from '../types.js';
+import { isDirectiveIssue } from '../suppressions.js';
+
+/** Source reporters show for issues about suppression comments */
+export const DIRECTIVE_SOURCE = 'lintmesh';
+
+/**
+ * Group issues by file path, preserving their order within each file
+ */
+export function groupByFile(issues: Issue[]): Map<string, Issue[]> {
+  const files = new Map<string, Issue[]>();
+  for (const issue of issues) {
+    const list = files.get(issue.path);
+    if (list) {
+      list.push(issue);
+    } else {
+      files.set(issue.path, [issue]);
+    }
+  }
+  return files;
+}
+
+/**
+ * Issues reported by a linter run: those of its linter, and in workspace mode
+ * of its package. Issues about suppression comments belong to no run.
+ */
+export function issuesForRun(issues: Issue[], run: LinterRun): Issue[] {
+  return issues.filter(issue => issue.source === run.name && issue.package === run.package && !isDirectiveIssue(issue));
+}
+
+/**
+ * Name of the tool that reported an issue: its linter, or lintmesh itself
+ * for issues about suppression comments
+ */
+export function issueSource(issue: Issue): string {
+  return isDirectiveIssue(issue) ? DIRECTIVE_SOURCE : issue.source;
+}
+
+/**
+ * Display name of a linter run, with its package in workspace mode
+ */
+export function runLabel(run: LinterRun): string {
+  return run.package ? `${run.name} (${run.package})` : run.name;
+}
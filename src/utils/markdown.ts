@@ -0,0 +1,16 @@
+/**
+ * Escape a value for use inside a Markdown table cell
+ */
+export function escapeCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Escape HTML special characters (for text inside raw HTML blocks)
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
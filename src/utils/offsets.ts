@@ -0,0 +1,73 @@
+/**
+ * Helpers for converting Replacement offsets (0-indexed UTF-8 bytes) to
+ * line/column positions
+ */
+
+export interface BytePosition {
+  /** 1-indexed line */
+  line: number;
+  /** 1-indexed column, counted in UTF-8 bytes */
+  column: number;
+}
+
+/**
+ * Byte offsets at which each line starts
+ */
+export function lineStarts(content: Buffer): number[] {
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === 0x0a) {
+      starts.push(i + 1);
+    }
+  }
+  return starts;
+}
+
+/**
+ * Convert a byte offset to a line/column position.
+ * Offsets past the end of the content clamp to the end.
+ */
+export function byteOffsetToPosition(starts: number[], offset: number): BytePosition {
+  // Binary search for the last line starting at or before offset
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (starts[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return { line: low + 1, column: offset - starts[low] + 1 };
+}
+
+/**
+ * Map UTF-16 string indices, as JavaScript tools like ESLint report them, to
+ * UTF-8 byte offsets. A leading BOM is skipped, since ESLint leaves it out
+ * of its ranges, but still counted in the byte offsets.
+ */
+export function utf16IndexToByteOffset(content: string): (index: number) => number {
+  const bom = content.charCodeAt(0) === 0xfeff ? 1 : 0;
+  const text = content.slice(bom);
+  const offsets = new Uint32Array(text.length + 1);
+  let bytes = bom * 3;
+  for (let i = 0; i < text.length; i++) {
+    offsets[i] = bytes;
+    const code = text.charCodeAt(i);
+    const next = text.charCodeAt(i + 1);
+    if (code < 0x80) {
+      bytes += 1;
+    } else if (code < 0x800) {
+      bytes += 2;
+    } else if (code >= 0xd800 && code <= 0xdbff && next >= 0xdc00 && next <= 0xdfff) {
+      // Surrogate pair: one 4-byte character
+      offsets[++i] = bytes;
+      bytes += 4;
+    } else {
+      bytes += 3;
+    }
+  }
+  offsets[text.length] = bytes;
+  return index => offsets[Math.min(Math.max(index, 0), text.length)];
+}
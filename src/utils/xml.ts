@@ -0,0 +1,34 @@
+/**
+ * Minimal XML helpers for the XML-based reporters
+ */
+
+const XML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&apos;',
+};
+
+/**
+ * Escape text for use in XML content or attribute values.
+ * Strips control characters that are not allowed in XML 1.0.
+ */
+export function escapeXml(value: string): string {
+  return value
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+    .replace(/[&<>"']/g, char => XML_ESCAPES[char]);
+}
+
+/**
+ * Render attributes as ` key="value"` pairs, skipping undefined values
+ */
+export function xmlAttributes(attrs: Record<string, string | number | undefined>): string {
+  return Object.entries(attrs)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeXml(String(value))}"`)
+    .join('');
+}
+
+export const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>';
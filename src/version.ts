@@ -0,0 +1,9 @@
+import { createRequire } from 'node:module';
+
+const require = createRequire(import.meta.url);
+
+/**
+ * lintmesh's version from package.json, one level up from both src/ and the
+ * bundle in dist/
+ */
+export const VERSION: string = require('../package.json').version;
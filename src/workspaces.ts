@@ -0,0 +1,147 @@
+import fg from 'fast-glob';
+import { existsSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+
+/**
+ * A package in a monorepo, linted with its own directory as cwd
+ */
+export interface WorkspacePackage {
+  /** Name from package.json, or the directory relative to the root if unnamed */
+  name: string;
+  /** Absolute directory */
+  dir: string;
+}
+
+/**
+ * Files of one package
+ */
+export interface PackageFiles {
+  /** Unset outside workspace mode */
+  package?: WorkspacePackage;
+  /** Directory the package's linters run in */
+  dir: string;
+  /** Files to lint (absolute paths) */
+  files: string[];
+}
+
+function readPackageJson(dir: string): Record<string, unknown> | null {
+  try {
+    return JSON.parse(readFileSync(path.join(dir, 'package.json'), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Strip a YAML scalar's quotes and trailing comment
+ */
+function yamlScalar(value: string): string {
+  const trimmed = value.replace(/\s+#.*$/, '').trim();
+  return trimmed.replace(/^(['"])(.*)\1$/, '$2');
+}
+
+/**
+ * Read the `packages` list of a pnpm-workspace.yaml. Only handles the block
+ * and flow sequence forms pnpm documents, not YAML in general.
+ */
+export function parsePnpmWorkspace(content: string): string[] {
+  const lines = content.split(/\r?\n/);
+  const start = lines.findIndex(line => /^packages\s*:/.test(line));
+  if (start === -1) {
+    return [];
+  }
+
+  const inline = lines[start].replace(/^packages\s*:/, '').replace(/\s+#.*$/, '').trim();
+  if (inline.startsWith('[')) {
+    return inline.replace(/^\[|\]$/g, '').split(',').map(yamlScalar).filter(Boolean);
+  }
+
+  const globs: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    if (/^\s*(#.*)?$/.test(line)) continue;
+    const item = line.match(/^\s+-\s*(.+)$/);
+    if (!item) break;
+    globs.push(yamlScalar(item[1]));
+  }
+  return globs.filter(Boolean);
+}
+
+/**
+ * Workspace globs from package.json `workspaces` (npm, yarn, bun) or
+ * pnpm-workspace.yaml, relative to root
+ */
+export function readWorkspaceGlobs(root: string): string[] {
+  const workspaces = readPackageJson(root)?.workspaces;
+  const fromPackageJson = Array.isArray(workspaces)
+    ? workspaces
+    : (workspaces as { packages?: unknown } | undefined)?.packages;
+  if (Array.isArray(fromPackageJson) && fromPackageJson.length > 0) {
+    return fromPackageJson.filter((glob): glob is string => typeof glob === 'string');
+  }
+
+  const pnpmPath = path.join(root, 'pnpm-workspace.yaml');
+  return existsSync(pnpmPath) ? parsePnpmWorkspace(readFileSync(pnpmPath, 'utf-8')) : [];
+}
+
+/**
+ * Find the packages of the monorepo at root. The root itself comes first, for
+ * files outside every workspace package.
+ */
+export async function findWorkspacePackages(root: string): Promise<WorkspacePackage[]> {
+  const globs = readWorkspaceGlobs(root);
+  if (globs.length === 0) {
+    throw new Error(`No workspaces found in ${path.join(root, 'package.json')} or pnpm-workspace.yaml`);
+  }
+
+  const dirs = await fg(globs.filter(glob => !glob.startsWith('!')).map(glob => glob.replace(/\/$/, '')), {
+    cwd: root,
+    onlyDirectories: true,
+    ignore: ['**/node_modules/**', ...globs.filter(glob => glob.startsWith('!')).map(glob => glob.slice(1))],
+  });
+
+  const packageFor = (dir: string): WorkspacePackage => {
+    const name = readPackageJson(dir)?.name;
+    return { name: typeof name === 'string' ? name : path.relative(root, dir) || '.', dir };
+  };
+
+  const packages = dirs
+    .sort()
+    .map(dir => path.resolve(root, dir))
+    .filter(dir => dir !== root && existsSync(path.join(dir, 'package.json')))
+    .map(packageFor);
+  return [packageFor(root), ...packages];
+}
+
+/**
+ * The deepest package containing a file, or the root for files outside
+ * every workspace package
+ * @param file Absolute path
+ * @param packages From findWorkspacePackages, root first
+ */
+export function findPackage(file: string, packages: WorkspacePackage[]): WorkspacePackage {
+  const deepestFirst = [...packages].sort((a, b) => b.dir.length - a.dir.length);
+  return deepestFirst.find(p => file.startsWith(p.dir + path.sep)) ?? packages[0];
+}
+
+/**
+ * Group files by the deepest package containing them
+ * @param files Absolute paths
+ * @param packages From findWorkspacePackages, root first
+ */
+export function groupByPackage(files: string[], packages: WorkspacePackage[]): PackageFiles[] {
+  const groups = new Map<WorkspacePackage, string[]>();
+
+  for (const file of files) {
+    const pkg = findPackage(file, packages);
+    const list = groups.get(pkg);
+    if (list) {
+      list.push(file);
+    } else {
+      groups.set(pkg, [file]);
+    }
+  }
+
+  return packages
+    .filter(pkg => groups.has(pkg))
+    .map(pkg => ({ package: pkg, dir: pkg.dir, files: groups.get(pkg) ?? [] }));
+}
@@ -0,0 +1,3 @@
+// Not a reporter: exports a plain object
+export const name = 'invalid';
+export default { format: 'nope' };
@@ -0,0 +1,6 @@
+// Custom reporter that writes to the destination stream itself
+export function reporter(output, ctx) {
+  for (const issue of output.issues) {
+    ctx.stream.write(`${issue.ruleId}\n`);
+  }
+}
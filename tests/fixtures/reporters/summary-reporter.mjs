@@ -0,0 +1,5 @@
+// Custom reporter that returns text
+export default function summaryReporter(output, ctx) {
+  const prefix = ctx.options?.prefix ?? 'issues';
+  return `${prefix}: ${output.summary.total}`;
+}
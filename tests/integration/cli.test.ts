@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeAll } from 'bun:test';
 import { $ } from 'bun';
+import fs from 'node:fs';
+import os from 'node:os';
 import path from 'node:path';
 
 const fixturesDir = path.join(import.meta.dir, '../fixtures');
@@ -118,6 +120,151 @@ describe('lintmesh CLI integration', () => {
     });
   });
 
+  describe('multiple reporters', () => {
+    it('writes file reporters alongside stdout', async () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lintmesh-'));
+      const sarifPath = path.join(tmpDir, 'lint.sarif');
+      const junitPath = path.join(tmpDir, 'junit.xml');
+      try {
+        const result = await $`bun run dist/lintmesh.js --quiet --linters=eslint --format compact --format sarif:${sarifPath} --format junit:${junitPath} ${fixturesDir}/eslint-errors.ts`.quiet().nothrow();
+
+        expect(result.exitCode).toBe(1);
+        expect(result.stdout.toString()).toMatch(/\.ts:\d+:\d+/);
+        expect(JSON.parse(fs.readFileSync(sarifPath, 'utf-8')).runs[0].tool.driver.name).toBe('eslint');
+        expect(fs.readFileSync(junitPath, 'utf-8')).toContain('<testsuite name="eslint"');
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+
+    it('exits 2 when a custom reporter has the wrong export shape', async () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lintmesh-'));
+      try {
+        fs.copyFileSync(path.join(fixturesDir, 'reporters/invalid-reporter.mjs'), path.join(tmpDir, 'reporter.mjs'));
+        fs.writeFileSync(path.join(tmpDir, 'lintmesh.jsonc'), '{ "reporters": [{ "module": "./reporter.mjs" }] }');
+
+        const result = await $`bun run dist/lintmesh.js --quiet --cwd ${tmpDir}`.quiet().nothrow();
+        expect(result.exitCode).toBe(2);
+        expect(result.stderr.toString()).toContain(`Invalid custom reporter ${path.join(tmpDir, 'reporter.mjs')}`);
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+
+    it('rejects unknown formats with exit 2', async () => {
+      const result = await $`bun run dist/lintmesh.js --quiet --format html ${fixturesDir}/clean.ts`.quiet().nothrow();
+      expect(result.exitCode).toBe(2);
+      expect(result.stderr.toString()).toContain('Invalid --format value');
+    });
+  });
+
+  describe('ndjson output', () => {
+    it('emits linter, issue and summary lines', async () => {
+      const result = await $`bun run dist/lintmesh.js --quiet --format ndjson --linters=eslint ${fixturesDir}/eslint-errors.ts`.quiet().nothrow();
+      const lines = result.stdout.toString().trim().split('\n').map(line => JSON.parse(line));
+
+      expect(lines[0].type).toBe('linter');
+      expect(lines[0].name).toBe('eslint');
+      expect(lines.slice(1, -1).every(l => l.type === 'issue')).toBe(true);
+      expect(lines[lines.length - 1].type).toBe('summary');
+      expect(lines[lines.length - 1].summary.total).toBe(lines.length - 2);
+    });
+  });
+
+  describe('baseline', () => {
+    it('suppresses recorded issues on later runs', async () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lintmesh-'));
+      const baselinePath = path.join(tmpDir, 'baseline.json');
+      try {
+        const record = await $`bun run dist/lintmesh.js baseline --quiet --linters=eslint --output ${baselinePath} ${fixturesDir}/eslint-errors.ts`.quiet().nothrow();
+        expect(record.exitCode).toBe(0);
+
+        const result = await $`bun run dist/lintmesh.js --json --quiet --linters=eslint --baseline ${baselinePath} ${fixturesDir}/eslint-errors.ts`.quiet().nothrow();
+        const output = JSON.parse(result.stdout.toString());
+
+        expect(result.exitCode).toBe(0);
+        expect(output.issues).toHaveLength(0);
+        expect(output.summary.suppressed).toBeGreaterThan(0);
+        expect(output.baseline.unmatched).toHaveLength(0);
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    }, 15000);
+  });
+
+  describe('merging', () => {
+    // eslint's no-unused-vars and tsc's TS6133 on the same variable merge into one issue
+    const makeProject = () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lintmesh-'));
+      fs.symlinkSync(path.resolve('node_modules'), path.join(dir, 'node_modules'));
+      fs.writeFileSync(path.join(dir, 'eslint.config.js'), "export default [{ rules: { 'no-unused-vars': 'error' } }];\n");
+      fs.writeFileSync(path.join(dir, 'tsconfig.json'), JSON.stringify({
+        compilerOptions: { allowJs: true, checkJs: true, noEmit: true, noUnusedLocals: true, lib: ['es5'], types: [] },
+        include: ['a.js'],
+      }));
+      fs.writeFileSync(path.join(dir, 'a.js'), 'const unused = 1;\nexport {};\n');
+      fs.writeFileSync(path.join(dir, 'lintmesh.json'), JSON.stringify({ merge: { enabled: true } }));
+      return dir;
+    };
+
+    it('records every linter\'s copy of a merged issue in the baseline', async () => {
+      const dir = makeProject();
+      try {
+        const cli = path.resolve('dist/lintmesh.js');
+        const record = await $`bun run ${cli} baseline --quiet --linters=eslint,tsc`.cwd(dir).quiet().nothrow();
+        expect(record.exitCode).toBe(0);
+        const baseline = JSON.parse(fs.readFileSync(path.join(dir, '.lintmesh-baseline.json'), 'utf-8'));
+        expect(baseline.entries.map((e: { ruleId: string }) => e.ruleId).sort()).toEqual(['eslint/no-unused-vars', 'tsc/TS6133']);
+
+        const result = await $`bun run ${cli} --json --quiet --linters=eslint,tsc`.cwd(dir).quiet().nothrow();
+        const output = JSON.parse(result.stdout.toString());
+        expect(result.exitCode).toBe(0);
+        expect(output.issues).toHaveLength(0);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    }, 20000);
+
+    it('writes merged issues once in ndjson output', async () => {
+      const dir = makeProject();
+      try {
+        const cli = path.resolve('dist/lintmesh.js');
+        const result = await $`bun run ${cli} --quiet --format ndjson --linters=eslint,tsc`.cwd(dir).quiet().nothrow();
+        const lines = result.stdout.toString().trim().split('\n').map(line => JSON.parse(line));
+
+        const issues = lines.filter(l => l.type === 'issue');
+        expect(issues.map(i => i.sources)).toEqual([['eslint', 'tsc']]);
+        expect(lines[lines.length - 1].summary.total).toBe(1);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    }, 20000);
+  });
+
+  describe('staged', () => {
+    it('writes report files and reports cwd in the real directory', async () => {
+      const repo = fs.mkdtempSync(path.join(os.tmpdir(), 'lintmesh-'));
+      try {
+        fs.symlinkSync(path.resolve('node_modules'), path.join(repo, 'node_modules'));
+        fs.writeFileSync(path.join(repo, '.gitignore'), 'node_modules\n');
+        fs.writeFileSync(path.join(repo, 'eslint.config.js'), "export default [{ rules: { 'no-var': 'error' } }];\n");
+        fs.writeFileSync(path.join(repo, 'a.js'), 'var a = 1;\nexport { a };\n');
+        await $`git init -q && git add -A`.cwd(repo).quiet();
+
+        const cli = path.resolve('dist/lintmesh.js');
+        const result = await $`bun run ${cli} --staged --quiet --linters=eslint --format json --format sarif:out.sarif`.cwd(repo).quiet().nothrow();
+        const output = JSON.parse(result.stdout.toString());
+
+        expect(output.cwd).toBe(repo);
+        expect(output.issues.map((i: { path: string }) => i.path)).toEqual(['a.js']);
+        const sarif = JSON.parse(fs.readFileSync(path.join(repo, 'out.sarif'), 'utf-8'));
+        expect(sarif.runs[0].originalUriBaseIds['%SRCROOT%'].uri).toBe(`file://${repo}/`);
+      } finally {
+        fs.rmSync(repo, { recursive: true, force: true });
+      }
+    });
+  });
+
   describe('compact output (default)', () => {
     it('outputs human-readable format by default', async () => {
       const result = await $`bun run dist/lintmesh.js --quiet --linters=eslint ${fixturesDir}/eslint-errors.ts`.quiet().nothrow();
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  BaselineMatcher,
+  baselineFingerprint,
+  createBaselineEntries,
+  loadBaseline,
+  writeBaseline,
+} from '../../src/baseline.js';
+import { computeExitCode } from '../../src/utils/exit-code.js';
+import type { Issue, VibelintOutput } from '../../src/types.js';
+
+function makeIssue(overrides: Partial<Issue> = {}): Issue {
+  return {
+    path: 'src/foo.ts',
+    line: 1,
+    column: 7,
+    endLine: 1,
+    endColumn: 8,
+    severity: 'error',
+    ruleId: 'eslint/no-unused-vars',
+    message: "'a' is assigned a value but never used.",
+    source: 'eslint',
+    ...overrides,
+  };
+}
+
+describe('baselineFingerprint', () => {
+  it('ignores indentation and whitespace changes', () => {
+    const issue = makeIssue();
+    expect(baselineFingerprint(issue, 'const a = 1;')).toBe(baselineFingerprint(issue, '    const  a =\t1;  '));
+  });
+
+  it('ignores line numbers', () => {
+    expect(baselineFingerprint(makeIssue({ line: 1 }), 'const a = 1;'))
+      .toBe(baselineFingerprint(makeIssue({ line: 40 }), 'const a = 1;'));
+  });
+
+  it('changes when the line content changes', () => {
+    const issue = makeIssue();
+    expect(baselineFingerprint(issue, 'const a = 1;')).not.toBe(baselineFingerprint(issue, 'const a = 2;'));
+  });
+
+  it('changes when rule, path or message change', () => {
+    const base = baselineFingerprint(makeIssue(), 'x');
+    expect(baselineFingerprint(makeIssue({ ruleId: 'oxlint/no-unused-vars' }), 'x')).not.toBe(base);
+    expect(baselineFingerprint(makeIssue({ path: 'src/bar.ts' }), 'x')).not.toBe(base);
+    expect(baselineFingerprint(makeIssue({ message: 'other' }), 'x')).not.toBe(base);
+  });
+});
+
+describe('baseline files', () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'lintmesh-'));
+    fs.mkdirSync(path.join(cwd, 'src'));
+    fs.writeFileSync(path.join(cwd, 'src/foo.ts'), 'const a = 1;\nconst b = 2;\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('round-trips through writeBaseline and loadBaseline', () => {
+    const file = path.join(cwd, '.lintmesh-baseline.json');
+    writeBaseline([makeIssue()], cwd, file);
+
+    const baseline = loadBaseline(file);
+    expect(baseline?.path).toBe(file);
+    expect(baseline?.entries).toHaveLength(1);
+    expect(baseline?.entries[0].ruleId).toBe('eslint/no-unused-vars');
+  });
+
+  it('returns null when the file does not exist', () => {
+    expect(loadBaseline(path.join(cwd, 'missing.json'))).toBeNull();
+  });
+
+  it('rejects malformed baseline files', () => {
+    const file = path.join(cwd, 'bad.json');
+    fs.writeFileSync(file, '{"version": 2, "entries": []}');
+
+    expect(() => loadBaseline(file)).toThrow('Invalid baseline');
+  });
+
+  it('suppresses baselined issues even after lines shift', () => {
+    const entries = createBaselineEntries([makeIssue()], cwd);
+    fs.writeFileSync(path.join(cwd, 'src/foo.ts'), '// header\n\n  const a = 1;\nconst b = 2;\n');
+
+    const matcher = new BaselineMatcher({ path: 'b.json', entries }, cwd);
+    const remaining = matcher.filter([makeIssue({ line: 3 })]);
+
+    expect(remaining).toHaveLength(0);
+    expect(matcher.report().suppressed).toBe(1);
+    expect(matcher.report().unmatched).toHaveLength(0);
+  });
+
+  it('lets new copies of a baselined issue through', () => {
+    const entries = createBaselineEntries([makeIssue()], cwd);
+    fs.writeFileSync(path.join(cwd, 'src/foo.ts'), 'const a = 1;\nconst a = 1;\n');
+
+    const matcher = new BaselineMatcher({ path: 'b.json', entries }, cwd);
+    const remaining = matcher.filter([makeIssue({ line: 1 }), makeIssue({ line: 2 })]);
+
+    expect(remaining).toHaveLength(1);
+  });
+
+  it('reports entries that no longer match', () => {
+    const entries = createBaselineEntries([makeIssue(), makeIssue({ line: 2, message: "'b' is unused" })], cwd);
+
+    const matcher = new BaselineMatcher({ path: 'b.json', entries }, cwd);
+    matcher.filter([makeIssue()]);
+    matcher.linted('eslint', ['src/foo.ts']);
+
+    const report = matcher.report();
+    expect(report.suppressed).toBe(1);
+    expect(report.unmatched.map(e => e.message)).toEqual(["'b' is unused"]);
+  });
+
+  it('only reports entries for files their linter checked', () => {
+    const entries = createBaselineEntries([
+      makeIssue(),
+      makeIssue({ path: 'src/bar.ts' }),
+      makeIssue({ ruleId: 'tsc/TS6133', source: 'tsc' }),
+    ], cwd);
+
+    const matcher = new BaselineMatcher({ path: 'b.json', entries }, cwd);
+    expect(matcher.report().unmatched).toEqual([]);
+
+    matcher.linted('eslint', ['src/foo.ts']);
+    expect(matcher.report().unmatched.map(e => [e.path, e.ruleId])).toEqual([['src/foo.ts', 'eslint/no-unused-vars']]);
+  });
+
+  it('leaves only new issues for computeExitCode', () => {
+    const entries = createBaselineEntries([makeIssue()], cwd);
+    const matcher = new BaselineMatcher({ path: 'b.json', entries }, cwd);
+    const issues = matcher.filter([makeIssue()]);
+
+    const output: VibelintOutput = {
+      timestamp: new Date().toISOString(),
+      cwd,
+      durationMs: 1,
+      linters: [],
+      issues,
+      summary: { total: 0, errors: 0, warnings: 0, info: 0, fixable: 0, suggestions: 0, suppressed: 1 },
+    };
+    expect(computeExitCode(output, 'error', false)).toBe(0);
+  });
+});
@@ -44,6 +44,86 @@ describe('ConfigSchema', () => {
     expect(result.success).toBe(false);
   });
 
+  test('validates reporters', () => {
+    const config = {
+      reporters: [{ format: 'compact' }, { format: 'sarif', output: 'reports/lint.sarif' }],
+    };
+    const result = ConfigSchema.safeParse(config);
+    expect(result.success).toBe(true);
+  });
+
+  test('validates custom reporter modules', () => {
+    const config = {
+      reporters: [{ module: './reporter.mjs', output: 'out.json', options: { team: 'web' } }],
+    };
+    const result = ConfigSchema.safeParse(config);
+    expect(result.success).toBe(true);
+  });
+
+  test('rejects unknown reporter format', () => {
+    const config = {
+      reporters: [{ format: 'html' }],
+    };
+    const result = ConfigSchema.safeParse(config);
+    expect(result.success).toBe(false);
+  });
+
+  test('validates gitlab severity mapping', () => {
+    const config = {
+      gitlab: { severity: { error: 'blocker', warning: 'major' } },
+    };
+    const result = ConfigSchema.safeParse(config);
+    expect(result.success).toBe(true);
+  });
+
+  test('rejects unknown gitlab severity', () => {
+    const config = {
+      gitlab: { severity: { error: 'fatal' } },
+    };
+    const result = ConfigSchema.safeParse(config);
+    expect(result.success).toBe(false);
+  });
+
+  test('validates markdown issue cap', () => {
+    const result = ConfigSchema.safeParse({ markdown: { maxIssues: 50 } });
+    expect(result.success).toBe(true);
+  });
+
+  test('validates merge priority', () => {
+    const result = ConfigSchema.safeParse({ merge: { enabled: true, priority: ['oxlint', 'eslint'] } });
+    expect(result.success).toBe(true);
+  });
+
+  test('rejects unknown linter in merge priority', () => {
+    const result = ConfigSchema.safeParse({ merge: { priority: ['jshint'] } });
+    expect(result.success).toBe(false);
+  });
+
+  test('validates rule severity overrides', () => {
+    const result = ConfigSchema.safeParse({ rules: { 'tsc/TS6133': 'warning', 'oxlint/*': 'off' } });
+    expect(result.success).toBe(true);
+  });
+
+  test('rejects unknown rule setting', () => {
+    const result = ConfigSchema.safeParse({ rules: { 'eslint/no-console': 'warn' } });
+    expect(result.success).toBe(false);
+  });
+
+  test('validates overrides', () => {
+    const result = ConfigSchema.safeParse({
+      overrides: [
+        { files: ['tests/**'], excludeFiles: ['tests/fixtures/**'], rules: { 'tsc/TS7006': 'off' }, failOn: 'warning' },
+        { files: ['scripts/**'], linters: { oxlint: { enabled: false }, eslint: { args: ['--rule', 'no-console:off'] } } },
+      ],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  test('rejects an override without files', () => {
+    const result = ConfigSchema.safeParse({ overrides: [{ files: [], failOn: 'warning' }] });
+    expect(result.success).toBe(false);
+  });
+
   test('rejects negative timeout', () => {
     const config = {
       timeout: -1000,
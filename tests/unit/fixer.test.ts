@@ -0,0 +1,167 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import { applyFixes, isFixSelected, previewFixes, runFixLoop } from '../../src/fixer.js';
+import { runLinters } from '../../src/runner.js';
+import type { CliOptions, Fix } from '../../src/types.js';
+import { makeIssue } from './reporters/helpers.js';
+
+function replace(startOffset: number, endOffset: number, text: string): Fix {
+  return { replacements: [{ startOffset, endOffset, text }] };
+}
+
+describe('applyFixes', () => {
+  const content = Buffer.from('let a = 1;\nlet b = 2;\n');
+
+  it('applies non-overlapping fixes in one pass', () => {
+    const result = applyFixes(content, [replace(11, 14, 'const'), replace(0, 3, 'const')]);
+    expect(result.content.toString()).toBe('const a = 1;\nconst b = 2;\n');
+    expect(result).toMatchObject({ applied: 2, skipped: 0 });
+  });
+
+  it('skips fixes that overlap or touch an earlier fix', () => {
+    const result = applyFixes(content, [replace(0, 3, 'const'), replace(2, 5, 'x'), replace(3, 3, ' ')]);
+    expect(result.content.toString()).toBe('const a = 1;\nlet b = 2;\n');
+    expect(result).toMatchObject({ applied: 1, skipped: 2 });
+  });
+
+  it('applies all replacements of a fix or none', () => {
+    const multi: Fix = {
+      replacements: [
+        { startOffset: 0, endOffset: 3, text: 'var' },
+        { startOffset: 11, endOffset: 14, text: 'var' },
+      ],
+    };
+    const result = applyFixes(content, [multi, replace(4, 5, 'x')]);
+    expect(result.content.toString()).toBe('var a = 1;\nvar b = 2;\n');
+    expect(result).toMatchObject({ applied: 1, skipped: 1 });
+  });
+
+  it('counts identical fixes from different linters once', () => {
+    const result = applyFixes(content, [replace(0, 3, 'const'), replace(0, 3, 'const')]);
+    expect(result.content.toString()).toBe('const a = 1;\nlet b = 2;\n');
+    expect(result).toMatchObject({ applied: 1, skipped: 0 });
+  });
+
+  it('skips out-of-bounds fixes', () => {
+    const result = applyFixes(content, [replace(0, 999, '')]);
+    expect(result.content.equals(content)).toBe(true);
+    expect(result).toMatchObject({ applied: 0, skipped: 1 });
+  });
+
+  it('uses UTF-8 byte offsets', () => {
+    const result = applyFixes(Buffer.from('é = 1'), [replace(2, 3, '')]);
+    expect(result.content.toString()).toBe('é= 1');
+  });
+});
+
+describe('isFixSelected', () => {
+  const issue = makeIssue({
+    ruleId: 'biome/noUnusedVariables',
+    canonicalRuleId: 'no-unused-vars',
+    source: 'biome',
+    fix: replace(0, 1, ''),
+  });
+
+  it('selects every fix without filters', () => {
+    expect(isFixSelected(issue, {})).toBe(true);
+    expect(isFixSelected({ ...issue, fix: undefined }, {})).toBe(false);
+  });
+
+  it('matches rules by linter or canonical rule ID', () => {
+    expect(isFixSelected(issue, { fixRules: ['biome/noUnusedVariables'] })).toBe(true);
+    expect(isFixSelected(issue, { fixRules: ['no-unused-vars'] })).toBe(true);
+    expect(isFixSelected(issue, { fixRules: ['prefer-const'] })).toBe(false);
+  });
+
+  it('matches sources', () => {
+    expect(isFixSelected(issue, { fixSources: ['biome'] })).toBe(true);
+    expect(isFixSelected(issue, { fixSources: ['eslint'] })).toBe(false);
+  });
+});
+
+describe('runFixLoop and previewFixes', () => {
+  const file = path.join(import.meta.dir, '../fixtures/fix-loop-tmp.ts');
+
+  afterEach(() => {
+    fs.rmSync(file, { force: true });
+  });
+
+  function makeOptions(overrides: Partial<CliOptions> = {}): CliOptions {
+    return {
+      files: [file],
+      exclude: [],
+      json: true,
+      pretty: false,
+      linters: ['eslint'],
+      failOn: 'error',
+      timeout: 30000,
+      cwd: process.cwd(),
+      quiet: true,
+      verbose: false,
+      interactive: false,
+      fix: true,
+      ...overrides,
+    };
+  }
+
+  it('applies fixes and re-runs until converged', async () => {
+    fs.writeFileSync(file, 'let a = 1;\nlet b = 2;\nexport const c = a + b;\n');
+
+    const output = await runFixLoop(makeOptions());
+
+    expect(fs.readFileSync(file, 'utf-8')).toBe('const a = 1;\nconst b = 2;\nexport const c = a + b;\n');
+    expect(output.fixes).toEqual({
+      passes: 1,
+      applied: 2,
+      files: [path.relative(process.cwd(), file)],
+      converged: true,
+    });
+    expect(output.issues).toHaveLength(0);
+   }, 15000);
+
+  it('converts ESLint ranges after multi-byte text and a BOM to byte offsets', async () => {
+    fs.writeFileSync(file, '\uFEFF// héllo wörld ✓✓✓ 🎉\nlet a = 1;\nexport const c = a;\n');
+    const options = makeOptions({ fix: false, fixDryRun: true });
+
+    const [patch] = previewFixes(await runLinters(options), options);
+
+    expect(patch.diff).toContain('-let a = 1;\n+const a = 1;\n');
+  });
+
+  it('only applies selected fixes', async () => {
+    fs.writeFileSync(file, 'let a = 1;\nexport const c = a;\n');
+
+    const output = await runFixLoop(makeOptions({ fixRules: ['no-var'] }));
+
+    expect(fs.readFileSync(file, 'utf-8')).toBe('let a = 1;\nexport const c = a;\n');
+    expect(output.fixes).toMatchObject({ passes: 0, applied: 0, converged: true });
+    expect(output.issues[0].ruleId).toBe('eslint/prefer-const');
+  });
+
+  it('previews fixes as a patch without writing', async () => {
+    const source = 'let a = 1;\nexport const c = a;\n';
+    fs.writeFileSync(file, source);
+    const options = makeOptions({ fix: false, fixDryRun: true });
+
+    const patches = previewFixes(await runLinters(options), options);
+
+    const relative = path.relative(process.cwd(), file);
+    expect(patches).toEqual([
+      {
+        path: relative,
+        diff: [
+          `diff --git a/${relative} b/${relative}`,
+          `--- a/${relative}`,
+          `+++ b/${relative}`,
+          '@@ -1,2 +1,2 @@',
+          '-let a = 1;',
+          '+const a = 1;',
+          ' export const c = a;',
+          '',
+        ].join('\n'),
+      },
+    ]);
+    expect(fs.readFileSync(file, 'utf-8')).toBe(source);
+  });
+});
@@ -106,6 +106,84 @@ describe('BiomeAdapter', () => {
       expect(() => adapter.parseOutput('not json', '/project')).toThrow();
     });
 
+    describe('code actions', () => {
+      const sourceCode = 'let a = 1;\nconst unused = 2;\none;\ntwo;\nthree;\nfour;\nexport const b = a;\n';
+
+      function parseWithAdvices(advices: unknown[]) {
+        const output = {
+          summary: { errors: 0, warnings: 1, infos: 0 },
+          command: 'lint',
+          diagnostics: [
+            {
+              category: 'lint/style/useConst',
+              severity: 'warning',
+              description: 'This let declares a variable that is only assigned once.',
+              message: [],
+              advices: { advices },
+              location: { path: { file: 'src/foo.ts' }, span: [0, 3], sourceCode },
+              tags: ['fixable'],
+            },
+          ],
+        };
+        return new BiomeAdapter().parseOutput(JSON.stringify(output), '/project')[0];
+      }
+
+      const log = (content: string) => ({ log: ['info', [{ elements: [], content }]] });
+
+      it('uses a safe fix as the autofix', () => {
+        const issue = parseWithAdvices([
+          log('Safe fix: Use const instead.'),
+          {
+            diff: {
+              dictionary: 'letconst a = 1;\n',
+              ops: [
+                { diffOp: { delete: { range: [0, 3] } } },
+                { diffOp: { insert: { range: [3, 8] } } },
+                { diffOp: { equal: { range: [8, 16] } } },
+              ],
+            },
+          },
+        ]);
+
+        expect(issue.fix).toEqual({ replacements: [{ startOffset: 0, endOffset: 3, text: 'const' }] });
+        expect(issue.suggestions).toBeUndefined();
+      });
+
+      it('keeps unsafe fixes as suggestions, skipping compressed lines', () => {
+        const issue = parseWithAdvices([
+          log('Unsafe fix: Remove the variable.'),
+          {
+            diff: {
+              dictionary: 'let a = 1;\nconst unused = 2;\nfour;\n',
+              ops: [
+                { diffOp: { equal: { range: [0, 11] } } },
+                { diffOp: { delete: { range: [11, 29] } } },
+                { equalLines: { line_count: 3 } },
+                { diffOp: { equal: { range: [29, 35] } } },
+              ],
+            },
+          },
+        ]);
+
+        expect(issue.fix).toBeUndefined();
+        expect(issue.suggestions).toEqual([
+          {
+            description: 'Unsafe fix: Remove the variable.',
+            fix: { replacements: [{ startOffset: 11, endOffset: 29, text: '' }] },
+          },
+        ]);
+      });
+
+      it('drops edits that do not match the source', () => {
+        const issue = parseWithAdvices([
+          log('Unsafe fix: Remove the variable.'),
+          { diff: { dictionary: 'nope', ops: [{ diffOp: { delete: { range: [0, 4] } } }] } },
+        ]);
+
+        expect(issue.suggestions).toEqual([{ description: 'Unsafe fix: Remove the variable.', fix: undefined }]);
+      });
+    });
+
     it('sets source to biome', () => {
       const adapter = new BiomeAdapter();
       const issues = adapter.parseOutput(mockOutput, '/project');
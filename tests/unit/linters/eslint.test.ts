@@ -81,6 +81,38 @@ describe('ESLintAdapter', () => {
       });
     });
 
+    it('keeps suggestions separate from the autofix', () => {
+      const adapter = new ESLintAdapter();
+      const output = JSON.stringify([
+        {
+          filePath: '/project/src/foo.ts',
+          errorCount: 1,
+          warningCount: 0,
+          messages: [
+            {
+              ruleId: 'no-useless-escape',
+              severity: 2,
+              message: 'Unnecessary escape character: \\..',
+              line: 1,
+              column: 5,
+              suggestions: [
+                { desc: 'Remove the `\\`.', fix: { range: [4, 5], text: '' } },
+                { desc: 'Replace the `\\` with `\\\\`.', fix: { range: [4, 4], text: '\\' } },
+              ],
+            },
+          ],
+        },
+      ]);
+
+      const [issue] = adapter.parseOutput(output, '/project');
+
+      expect(issue.fix).toBeUndefined();
+      expect(issue.suggestions).toEqual([
+        { description: 'Remove the `\\`.', fix: { replacements: [{ startOffset: 4, endOffset: 5, text: '' }] } },
+        { description: 'Replace the `\\` with `\\\\`.', fix: { replacements: [{ startOffset: 4, endOffset: 4, text: '\\' }] } },
+      ]);
+    });
+
     it('handles empty output', () => {
       const adapter = new ESLintAdapter();
       const issues = adapter.parseOutput('[]', '/project');
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'bun:test';
+import { mergeIssues } from '../../src/merge.js';
+import { makeIssue } from './reporters/helpers.js';
+
+const fix = { replacements: [{ range: [0, 1] as [number, number], text: '' }] };
+
+describe('mergeIssues', () => {
+  const eslint = makeIssue({ ruleId: 'eslint/no-unused-vars', source: 'eslint', severity: 'warning' });
+  const oxlint = makeIssue({
+    ruleId: 'oxlint/eslint(no-unused-vars)',
+    source: 'oxlint',
+    severity: 'error',
+    column: 9,
+    endColumn: 10,
+    message: "Variable 'x' is declared but never used.",
+    fix,
+  });
+
+  it('merges the same rule at overlapping ranges from different linters', () => {
+    const merged = mergeIssues([eslint, oxlint], ['eslint', 'oxlint']);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({
+      ruleId: 'eslint/no-unused-vars',
+      message: eslint.message,
+      source: 'eslint',
+      sources: ['eslint', 'oxlint'],
+      severity: 'error',
+      fix,
+    });
+  });
+
+  it('takes the primary issue from the most trusted linter', () => {
+    const merged = mergeIssues([eslint, oxlint], ['oxlint', 'eslint']);
+
+    expect(merged[0]).toMatchObject({
+      ruleId: 'oxlint/eslint(no-unused-vars)',
+      source: 'oxlint',
+      sources: ['oxlint', 'eslint'],
+    });
+  });
+
+  it('prefers the fix of the most trusted linter that has one', () => {
+    const eslintFix = { replacements: [{ range: [5, 6] as [number, number], text: 'y' }] };
+    const merged = mergeIssues([{ ...eslint, fix: eslintFix }, oxlint], ['eslint', 'oxlint']);
+    expect(merged[0].fix).toEqual(eslintFix);
+  });
+
+  it('keeps issues with different rules, files or ranges apart', () => {
+    const issues = [
+      eslint,
+      { ...oxlint, ruleId: 'oxlint/eslint(no-shadow)' },
+      { ...oxlint, path: 'src/bar.ts' },
+      { ...oxlint, line: 20, endLine: 20 },
+    ];
+    const merged = mergeIssues(issues, ['eslint', 'oxlint']);
+    expect(merged).toHaveLength(4);
+    expect(merged.every(issue => issue.sources === undefined)).toBe(true);
+  });
+
+  it('keeps rules of the same name from different plugins apart', () => {
+    const issues = [
+      { ...eslint, ruleId: 'eslint/react/no-deprecated' },
+      { ...oxlint, ruleId: 'oxlint/eslint-plugin-import(no-deprecated)' },
+    ];
+    expect(mergeIssues(issues, ['eslint', 'oxlint'])).toHaveLength(2);
+
+    issues[0].ruleId = 'eslint/import/no-deprecated';
+    expect(mergeIssues(issues, ['eslint', 'oxlint'])[0].sources).toEqual(['eslint', 'oxlint']);
+  });
+
+  it('merges differently spelled rules with the same canonical ID', () => {
+    const biome = makeIssue({ ruleId: 'biome/noUnusedVariables', canonicalRuleId: 'no-unused-vars', source: 'biome' });
+    const merged = mergeIssues([biome, { ...eslint, canonicalRuleId: 'no-unused-vars' }], ['eslint', 'biome']);
+    expect(merged).toHaveLength(1);
+    expect(merged[0].sources).toEqual(['eslint', 'biome']);
+  });
+
+  it('does not merge two issues from the same linter', () => {
+    const merged = mergeIssues([eslint, { ...eslint, column: 8 }], ['eslint']);
+    expect(merged).toHaveLength(2);
+  });
+
+  it('ranks linters missing from the priority list last', () => {
+    const biome = makeIssue({ ruleId: 'biome/no-unused-vars', source: 'biome' });
+    const merged = mergeIssues([biome, eslint], ['eslint']);
+    expect(merged[0].sources).toEqual(['eslint', 'biome']);
+  });
+});
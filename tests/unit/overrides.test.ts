@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { FileSettings, OverrideSet } from '../../src/overrides.js';
+import { makeIssue } from './reporters/helpers.js';
+
+describe('OverrideSet', () => {
+  let cwd: string;
+
+  beforeAll(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'lintmesh-'));
+    for (const file of ['src/app.ts', 'tests/app.test.ts', 'tests/fixtures/data.ts', 'scripts/build.ts']) {
+      fs.mkdirSync(path.dirname(path.join(cwd, file)), { recursive: true });
+      fs.writeFileSync(path.join(cwd, file), '');
+    }
+  });
+
+  afterAll(() => {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('applies matching overrides in order to linter settings', async () => {
+    const overrides = await OverrideSet.resolve([
+      { files: ['tests/**'], linters: { oxlint: { args: ['--deny-warnings'] } } },
+      { files: ['tests/fixtures/**'], linters: { oxlint: { enabled: false } } },
+    ], cwd);
+    const base = { enabled: true, args: ['--quiet'] };
+
+    expect(overrides.linterConfig('oxlint', 'src/app.ts', base)).toEqual(base);
+    expect(overrides.linterConfig('oxlint', 'tests/app.test.ts', base)).toEqual({ enabled: true, args: ['--deny-warnings'] });
+    expect(overrides.linterConfig('oxlint', 'tests/fixtures/data.ts', base)).toEqual({ enabled: false, args: ['--deny-warnings'] });
+    expect(overrides.linterConfig('eslint', 'tests/fixtures/data.ts', base)).toEqual(base);
+  });
+
+  it('skips files matched by excludeFiles', async () => {
+    const overrides = await OverrideSet.resolve([
+      { files: ['tests/**'], excludeFiles: ['tests/fixtures/**'], failOn: 'warning' },
+    ], cwd);
+
+    expect(overrides.failOn('tests/app.test.ts', 'error')).toBe('warning');
+    expect(overrides.failOn('tests/fixtures/data.ts', 'error')).toBe('error');
+  });
+
+  it('merges override rules over the top-level rules', async () => {
+    const overrides = await OverrideSet.resolve([
+      { files: ['tests/**'], rules: { 'tsc/TS7006': 'off' } },
+      { files: ['scripts/**'], rules: { 'no-console': 'off', 'eslint/*': 'info' } },
+    ], cwd, { 'tsc/*': 'warning' });
+
+    const tsIssue = makeIssue({ ruleId: 'tsc/TS7006', source: 'tsc' });
+    expect(overrides.severities('tests/app.test.ts').setting(tsIssue)).toBe('off');
+    expect(overrides.severities('src/app.ts').setting(tsIssue)).toBe('warning');
+
+    const consoleIssue = makeIssue({ ruleId: 'eslint/no-console', canonicalRuleId: 'no-console' });
+    expect(overrides.severities('scripts/build.ts').apply([consoleIssue])).toEqual([]);
+    expect(overrides.severities('src/app.ts').apply([consoleIssue])).toEqual([consoleIssue]);
+  });
+
+  it('uses the nearest nested config for each file', async () => {
+    const settings = await FileSettings.resolve({
+      cwd,
+      rules: { 'eslint/*': 'warning' },
+      scopes: [
+        { dir: 'tests', linters: { eslint: { enabled: true } }, failOn: 'warning', rules: { 'tsc/*': 'off' } },
+        {
+          dir: path.join('tests', 'fixtures'),
+          linters: { oxlint: { enabled: true, args: ['--quiet'] } },
+          failOn: 'error',
+          overrides: [{ files: ['*.ts'], failOn: 'info' }],
+        },
+      ],
+    });
+    const base = { enabled: true };
+    const tscIssue = makeIssue({ ruleId: 'tsc/TS7006', source: 'tsc' });
+
+    expect(settings.linterConfig('tsc', 'src/app.ts', base)).toEqual(base);
+    expect(settings.linterConfig('tsc', 'tests/app.test.ts', base)).toEqual({ enabled: false });
+    expect(settings.linterConfig('oxlint', 'tests/fixtures/data.ts', base)).toEqual({ enabled: true, args: ['--quiet'] });
+
+    expect(settings.severities('src/app.ts').setting(makeIssue())).toBe('warning');
+    expect(settings.severities('tests/app.test.ts').setting(tscIssue)).toBe('off');
+    expect(settings.severities('tests/app.test.ts').setting(makeIssue())).toBeUndefined();
+
+    expect(settings.failOn('src/app.ts', 'error')).toBe('error');
+    expect(settings.failOn('tests/app.test.ts', 'error')).toBe('warning');
+    expect(settings.failOn('tests/fixtures/data.ts', 'error')).toBe('info');
+  });
+
+  it('resolves override globs from the config directory', async () => {
+    const settings = await FileSettings.resolve({
+      cwd: path.join(cwd, 'src'),
+      configDir: '..',
+      overrides: [{ files: ['src/**'], failOn: 'warning' }],
+    });
+    expect(settings.failOn('app.ts', 'error')).toBe('warning');
+  });
+});
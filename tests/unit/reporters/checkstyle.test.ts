@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'bun:test';
+import { formatCheckstyle } from '../../../src/reporters/checkstyle.js';
+import { makeIssue, makeOutput } from './helpers.js';
+
+describe('formatCheckstyle', () => {
+  it('emits an empty checkstyle document when clean', () => {
+    expect(formatCheckstyle(makeOutput([]))).toBe(
+      '<?xml version="1.0" encoding="UTF-8"?>\n<checkstyle version="4.3">\n</checkstyle>'
+    );
+  });
+
+  it('groups errors by file', () => {
+    const xml = formatCheckstyle(makeOutput([
+      makeIssue(),
+      makeIssue({ line: 20 }),
+      makeIssue({ path: 'src/bar.ts' }),
+    ]));
+
+    expect(xml.match(/<file /g)).toHaveLength(2);
+    expect(xml.match(/<error /g)).toHaveLength(3);
+  });
+
+  it('maps issue fields to error attributes', () => {
+    const xml = formatCheckstyle(makeOutput([makeIssue({ severity: 'warning' })]));
+
+    expect(xml).toContain('<file name="src/foo.ts">');
+    expect(xml).toContain(
+      '<error line="10" column="7" severity="warning" message="&apos;x&apos; is defined but never used." source="eslint/no-unused-vars"/>'
+    );
+  });
+});
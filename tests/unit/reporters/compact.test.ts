@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'bun:test';
+import { formatCompact } from '../../../src/reporters/compact.js';
+import { makeIssue, makeOutput } from './helpers.js';
+
+describe('formatCompact', () => {
+  it('prints one line per issue and a summary', () => {
+    const text = formatCompact(makeOutput([makeIssue(), makeIssue({ severity: 'warning', line: 12 })]));
+
+    expect(text).toBe([
+      "src/foo.ts:10:7 error eslint/no-unused-vars: 'x' is defined but never used.",
+      "src/foo.ts:12:7 warning eslint/no-unused-vars: 'x' is defined but never used.",
+      '',
+      '2 issues (1 errors, 1 warnings)',
+    ].join('\n'));
+  });
+
+  it('reports a clean run', () => {
+    expect(formatCompact(makeOutput([]))).toBe('No issues found');
+  });
+
+  it('adds ANSI colors when enabled', () => {
+    expect(formatCompact(makeOutput([makeIssue()]), true)).toContain('\x1b[31merror');
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { buildStepSummary, formatGithub, writeStepSummary } from '../../../src/reporters/github.js';
+import { makeIssue, makeOutput, makeRun } from './helpers.js';
+
+describe('formatGithub', () => {
+  it('emits one workflow command per issue', () => {
+    const text = formatGithub(makeOutput([makeIssue()]));
+
+    expect(text).toBe(
+      "::error file=src/foo.ts,line=10,endLine=10,col=7,endColumn=12,title=eslint/no-unused-vars::'x' is defined but never used."
+    );
+  });
+
+  it('maps warning and info severities', () => {
+    const lines = formatGithub(makeOutput([
+      makeIssue({ severity: 'warning' }),
+      makeIssue({ severity: 'info' }),
+    ])).split('\n');
+
+    expect(lines[0]).toStartWith('::warning ');
+    expect(lines[1]).toStartWith('::notice ');
+  });
+
+  it('escapes newlines in messages and separators in properties', () => {
+    const text = formatGithub(makeOutput([
+      makeIssue({ message: 'line one\nline two 100%', ruleId: 'tsc/a:b,c' }),
+    ]));
+
+    expect(text).toContain('title=tsc/a%3Ab%2Cc');
+    expect(text).toEndWith('::line one%0Aline two 100%25');
+  });
+
+  it('reports failed linters', () => {
+    const text = formatGithub(makeOutput([], [
+      makeRun({ name: 'tsc', version: 'unknown', success: false, error: 'timed out', durationMs: 10, filesProcessed: 0 }),
+    ]));
+
+    expect(text).toBe('::error title=lintmesh/tsc::timed out');
+  });
+
+  it('returns empty output when clean', () => {
+    expect(formatGithub(makeOutput([]))).toBe('');
+  });
+});
+
+describe('buildStepSummary', () => {
+  it('includes counts per linter', () => {
+    const summary = buildStepSummary(makeOutput([
+      makeIssue(),
+      makeIssue({ source: 'oxlint', ruleId: 'oxlint/no-debugger', severity: 'warning' }),
+    ]));
+
+    expect(summary).toContain('| eslint | 9.39.2 | ok | 1 | 0 | 0 | 50ms |');
+    expect(summary).toContain('| oxlint | 0.16.6 | ok | 0 | 1 | 0 | 5ms |');
+  });
+
+  it('counts issues about suppression comments under lintmesh', () => {
+    const summary = buildStepSummary(makeOutput([makeIssue(), makeIssue({ ruleId: 'lintmesh/unused-suppression', severity: 'warning', message: 'Unused lintmesh-ignore-line directive.' })]));
+
+    expect(summary).toContain('| eslint | 9.39.2 | ok | 1 | 0 | 0 | 50ms |');
+    expect(summary).toContain('| lintmesh | - | ok | 0 | 1 | 0 | - |');
+  });
+
+  it('includes counts per rule, most frequent first', () => {
+    const summary = buildStepSummary(makeOutput([
+      makeIssue(),
+      makeIssue({ ruleId: 'eslint/semi', severity: 'warning' }),
+      makeIssue({ ruleId: 'eslint/semi', severity: 'warning', line: 20 }),
+    ]));
+
+    const semi = summary.indexOf('`eslint/semi` | 0 | 2 | 0');
+    const unused = summary.indexOf('`eslint/no-unused-vars` | 1 | 0 | 0');
+    expect(semi).toBeGreaterThan(-1);
+    expect(unused).toBeGreaterThan(semi);
+  });
+
+  it('notes a clean run', () => {
+    expect(buildStepSummary(makeOutput([]))).toContain('No issues found.');
+  });
+});
+
+describe('writeStepSummary', () => {
+  let tmpDir: string | undefined;
+
+  afterEach(() => {
+    if (tmpDir) fs.rmSync(tmpDir, { recursive: true, force: true });
+    tmpDir = undefined;
+  });
+
+  it('appends to the summary file', () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lintmesh-'));
+    const summaryPath = path.join(tmpDir, 'summary.md');
+    fs.writeFileSync(summaryPath, '# Existing\n');
+
+    expect(writeStepSummary(makeOutput([makeIssue()]), summaryPath)).toBe(true);
+
+    const content = fs.readFileSync(summaryPath, 'utf-8');
+    expect(content).toStartWith('# Existing\n');
+    expect(content).toContain('## lintmesh');
+  });
+
+  it('does nothing without a summary path', () => {
+    expect(writeStepSummary(makeOutput([]), undefined)).toBe(false);
+  });
+});
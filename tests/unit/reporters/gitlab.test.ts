@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'bun:test';
+import { buildGitlabReport, formatGitlab } from '../../../src/reporters/gitlab.js';
+import { makeIssue, makeOutput } from './helpers.js';
+
+describe('buildGitlabReport', () => {
+  it('maps issues to code quality entries', () => {
+    const [entry] = buildGitlabReport(makeOutput([makeIssue({ endLine: 12 })]));
+
+    expect(entry.type).toBe('issue');
+    expect(entry.description).toBe("'x' is defined but never used.");
+    expect(entry.check_name).toBe('eslint/no-unused-vars');
+    expect(entry.engine_name).toBe('eslint');
+    expect(entry.location).toEqual({ path: 'src/foo.ts', lines: { begin: 10, end: 12 } });
+    expect(entry.fingerprint).toBeTruthy();
+  });
+
+  it('names lintmesh as the engine of issues about suppression comments', () => {
+    const [entry] = buildGitlabReport(makeOutput([makeIssue({ ruleId: 'lintmesh/unused-suppression', severity: 'warning', message: 'Unused lintmesh-ignore-line directive.' })]));
+    expect(entry.engine_name).toBe('lintmesh');
+  });
+
+  it('uses default severity mapping', () => {
+    const report = buildGitlabReport(makeOutput([
+      makeIssue({ severity: 'error' }),
+      makeIssue({ severity: 'warning', line: 11 }),
+      makeIssue({ severity: 'info', line: 12 }),
+    ]));
+
+    expect(report.map(e => e.severity)).toEqual(['major', 'minor', 'info']);
+  });
+
+  it('applies configured severity mapping', () => {
+    const report = buildGitlabReport(
+      makeOutput([makeIssue({ severity: 'error' }), makeIssue({ severity: 'warning', line: 11 })]),
+      { error: 'blocker' }
+    );
+
+    expect(report.map(e => e.severity)).toEqual(['blocker', 'minor']);
+  });
+
+  it('keeps fingerprints stable when lines shift', () => {
+    const [before] = buildGitlabReport(makeOutput([makeIssue()]));
+    const [after] = buildGitlabReport(makeOutput([makeIssue({ line: 50, endLine: 50 })]));
+
+    expect(before.fingerprint).toBe(after.fingerprint);
+  });
+
+  it('produces unique fingerprints for repeated issues', () => {
+    const report = buildGitlabReport(makeOutput([makeIssue(), makeIssue({ line: 30 })]));
+
+    expect(new Set(report.map(e => e.fingerprint)).size).toBe(2);
+  });
+
+  it('changes fingerprint when the message changes', () => {
+    const [a] = buildGitlabReport(makeOutput([makeIssue()]));
+    const [b] = buildGitlabReport(makeOutput([makeIssue({ message: "'y' is defined but never used." })]));
+
+    expect(a.fingerprint).not.toBe(b.fingerprint);
+  });
+});
+
+describe('formatGitlab', () => {
+  it('returns a JSON array', () => {
+    const parsed = JSON.parse(formatGitlab(makeOutput([makeIssue()])));
+
+    expect(Array.isArray(parsed)).toBe(true);
+    expect(parsed).toHaveLength(1);
+  });
+});
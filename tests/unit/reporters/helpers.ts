@@ -0,0 +1,49 @@
+import type { Issue, LinterRun, VibelintOutput } from '../../../src/types.js';
+
+export function makeIssue(overrides: Partial<Issue> = {}): Issue {
+  return {
+    path: 'src/foo.ts',
+    line: 10,
+    column: 7,
+    endLine: 10,
+    endColumn: 12,
+    severity: 'error',
+    ruleId: 'eslint/no-unused-vars',
+    message: "'x' is defined but never used.",
+    source: 'eslint',
+    ...overrides,
+  };
+}
+
+export function makeRun(overrides: Partial<LinterRun> = {}): LinterRun {
+  return {
+    name: 'eslint',
+    version: '9.39.2',
+    success: true,
+    durationMs: 50,
+    filesProcessed: 1,
+    ...overrides,
+  };
+}
+
+export function makeOutput(issues: Issue[], linters?: LinterRun[]): VibelintOutput {
+  return {
+    timestamp: '2026-01-01T00:00:00.000Z',
+    cwd: '/project',
+    durationMs: 100,
+    linters: linters ?? [
+      makeRun(),
+      makeRun({ name: 'oxlint', version: '0.16.6', durationMs: 5 }),
+      makeRun({ name: 'tsc', version: '5.7.2', durationMs: 80 }),
+    ],
+    issues,
+    summary: {
+      total: issues.length,
+      errors: issues.filter(i => i.severity === 'error').length,
+      warnings: issues.filter(i => i.severity === 'warning').length,
+      info: issues.filter(i => i.severity === 'info').length,
+      fixable: issues.filter(i => i.fix !== undefined).length,
+      suggestions: issues.filter(i => i.suggestions?.length).length,
+    },
+  };
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect, afterEach, beforeEach } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { PassThrough } from 'node:stream';
+import { REPORTERS, loadReporters, parseReporterSpec, resolveReporters, writeReports } from '../../../src/reporters/index.js';
+import { REPORTER_NAMES } from '../../../src/config.js';
+import { makeIssue, makeOutput } from './helpers.js';
+
+const fixturesDir = path.join(import.meta.dir, '../../fixtures/reporters');
+
+describe('REPORTERS', () => {
+  it('has a reporter for every format name', () => {
+    for (const name of REPORTER_NAMES) {
+      expect(typeof REPORTERS[name]).toBe('function');
+    }
+  });
+});
+
+describe('parseReporterSpec', () => {
+  it('parses a bare format name', () => {
+    expect(parseReporterSpec('sarif')).toEqual({ format: 'sarif', output: undefined });
+  });
+
+  it('parses a format with output path', () => {
+    expect(parseReporterSpec('junit:reports/junit.xml')).toEqual({ format: 'junit', output: 'reports/junit.xml' });
+  });
+
+  it('rejects unknown formats', () => {
+    expect(() => parseReporterSpec('html')).toThrow('Invalid --format value: html');
+  });
+
+  it('rejects an empty output path', () => {
+    expect(() => parseReporterSpec('sarif:')).toThrow('Missing output path');
+  });
+});
+
+describe('resolveReporters', () => {
+  it('defaults to compact on stdout', () => {
+    expect(resolveReporters([], false)).toEqual([{ format: 'compact' }]);
+  });
+
+  it('treats --json as json on stdout', () => {
+    expect(resolveReporters([], true)).toEqual([{ format: 'json' }]);
+  });
+
+  it('uses config reporters when no CLI format is given', () => {
+    const config = [{ format: 'compact' as const }, { format: 'sarif' as const, output: 'out.sarif' }];
+    expect(resolveReporters([], false, config)).toEqual(config);
+  });
+
+  it('prefers CLI formats over config reporters', () => {
+    const config = [{ format: 'sarif' as const, output: 'out.sarif' }];
+    expect(resolveReporters(['checkstyle'], false, config)).toEqual([{ format: 'checkstyle', output: undefined }]);
+  });
+
+  it('accepts custom reporters from config', () => {
+    const config = [{ module: './reporter.mjs', output: 'dash.json' }];
+    expect(resolveReporters([], false, config)).toEqual(config);
+  });
+
+  it('rejects more than one stdout reporter', () => {
+    expect(() => resolveReporters(['compact', 'sarif'], false)).toThrow('Only one reporter can write to stdout');
+  });
+});
+
+function collectStream(): { stream: PassThrough; text: () => string } {
+  const stream = new PassThrough();
+  const chunks: string[] = [];
+  stream.on('data', chunk => chunks.push(String(chunk)));
+  return { stream, text: () => chunks.join('') };
+}
+
+describe('loadReporters', () => {
+  it('resolves built-in and custom reporters', async () => {
+    const loaded = await loadReporters(
+      [{ format: 'compact' }, { module: 'summary-reporter.mjs' }],
+      fixturesDir
+    );
+
+    expect(loaded[0].reporter).toBe(REPORTERS.compact);
+    expect(typeof loaded[1].reporter).toBe('function');
+  });
+});
+
+describe('writeReports', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lintmesh-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function makeCtx(stdout: NodeJS.WritableStream) {
+    return { cwd: tmpDir, pretty: false, config: {}, env: {}, stdout, stdoutColors: false };
+  }
+
+  it('writes file reporters and stdout', async () => {
+    const stdout = collectStream();
+    const reporters = await loadReporters(
+      [{ format: 'compact' }, { format: 'sarif', output: 'reports/lint.sarif' }, { format: 'junit', output: 'junit.xml' }],
+      tmpDir
+    );
+
+    await writeReports(makeOutput([makeIssue()]), reporters, makeCtx(stdout.stream));
+
+    expect(stdout.text()).toContain('src/foo.ts:10:7 error eslint/no-unused-vars');
+    const sarif = JSON.parse(fs.readFileSync(path.join(tmpDir, 'reports/lint.sarif'), 'utf-8'));
+    expect(sarif.version).toBe('2.1.0');
+    expect(fs.readFileSync(path.join(tmpDir, 'junit.xml'), 'utf-8')).toContain('<testsuites');
+  });
+
+  it('leaves stdout empty when everything goes to files', async () => {
+    const stdout = collectStream();
+    const reporters = await loadReporters([{ format: 'json', output: 'out.json' }], tmpDir);
+
+    await writeReports(makeOutput([]), reporters, makeCtx(stdout.stream));
+
+    expect(stdout.text()).toBe('');
+    expect(fs.existsSync(path.join(tmpDir, 'out.json'))).toBe(true);
+  });
+
+  it('passes options to custom reporters that return text', async () => {
+    const stdout = collectStream();
+    const reporters = await loadReporters(
+      [{ module: 'summary-reporter.mjs', options: { prefix: 'found' } }],
+      fixturesDir
+    );
+
+    await writeReports(makeOutput([makeIssue()]), reporters, makeCtx(stdout.stream));
+
+    expect(stdout.text()).toBe('found: 1\n');
+  });
+
+  it('lets custom reporters write to the file stream', async () => {
+    const stdout = collectStream();
+    const reporters = await loadReporters(
+      [{ module: 'stream-reporter.mjs', output: 'rules.txt' }],
+      fixturesDir
+    );
+
+    await writeReports(makeOutput([makeIssue(), makeIssue({ ruleId: 'eslint/semi' })]), reporters, makeCtx(stdout.stream));
+
+    expect(fs.readFileSync(path.join(tmpDir, 'rules.txt'), 'utf-8')).toBe('eslint/no-unused-vars\neslint/semi\n');
+    expect(stdout.text()).toBe('');
+  });
+});
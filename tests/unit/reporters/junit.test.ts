@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'bun:test';
+import { formatJunit } from '../../../src/reporters/junit.js';
+import { makeIssue, makeOutput, makeRun } from './helpers.js';
+
+describe('formatJunit', () => {
+  it('emits an XML declaration and testsuites root', () => {
+    const xml = formatJunit(makeOutput([]));
+
+    expect(xml).toStartWith('<?xml version="1.0" encoding="UTF-8"?>\n<testsuites name="lintmesh"');
+    expect(xml).toEndWith('</testsuites>');
+  });
+
+  it('creates one testsuite per linter run', () => {
+    const xml = formatJunit(makeOutput([]));
+
+    expect(xml.match(/<testsuite /g)).toHaveLength(3);
+    expect(xml).toContain('<testsuite name="eslint"');
+    expect(xml).toContain('<property name="version" value="9.39.2"/>');
+  });
+
+  it('creates one testcase per file and one failure per issue', () => {
+    const xml = formatJunit(makeOutput([
+      makeIssue(),
+      makeIssue({ line: 20, endLine: 20, ruleId: 'eslint/semi', message: 'Missing semicolon.' }),
+      makeIssue({ path: 'src/bar.ts' }),
+    ]));
+
+    expect(xml.match(/<testcase /g)).toHaveLength(2);
+    expect(xml.match(/<failure /g)).toHaveLength(3);
+    expect(xml).toContain('<testsuite name="eslint" tests="2" failures="3" errors="0"');
+    expect(xml).toContain('<failure message="Missing semicolon." type="eslint/semi">');
+  });
+
+  it('puts issues about suppression comments in a lintmesh testsuite', () => {
+    const xml = formatJunit(makeOutput([makeIssue(), makeIssue({ ruleId: 'lintmesh/unused-suppression', severity: 'warning', message: 'Unused lintmesh-ignore-line directive.' })]));
+
+    expect(xml).toContain('<testsuites name="lintmesh" tests="2" failures="2" errors="0"');
+    expect(xml).toContain('<testsuite name="eslint" tests="1" failures="1" errors="0"');
+    expect(xml).toContain('<testsuite name="lintmesh" tests="1" failures="1" errors="0"');
+    expect(xml).toContain('<testcase name="src/foo.ts" classname="lintmesh" file="src/foo.ts">');
+  });
+
+  it('marks failed linters as suite-level errors', () => {
+    const xml = formatJunit(makeOutput([], [
+      makeRun({ name: 'tsc', version: 'unknown', success: false, error: 'Neither tsgo nor tsc found' }),
+    ]));
+
+    expect(xml).toContain('<testsuites name="lintmesh" tests="1" failures="0" errors="1"');
+    expect(xml).toContain('<testsuite name="tsc" tests="1" failures="0" errors="1"');
+    expect(xml).toContain('<error message="Neither tsgo nor tsc found" type="LinterError">');
+  });
+
+  it('escapes XML special characters', () => {
+    const xml = formatJunit(makeOutput([
+      makeIssue({ message: 'Type \'A<"b">\' is not assignable & more' }),
+    ]));
+
+    expect(xml).toContain('message="Type &apos;A&lt;&quot;b&quot;&gt;&apos; is not assignable &amp; more"');
+    expect(xml).not.toContain('A<"b">');
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'bun:test';
+import path from 'node:path';
+import { loadCustomReporter } from '../../../src/reporters/loader.js';
+
+const fixturesDir = path.join(import.meta.dir, '../../fixtures/reporters');
+
+describe('loadCustomReporter', () => {
+  it('loads a default export', async () => {
+    const reporter = await loadCustomReporter('summary-reporter.mjs', fixturesDir);
+    expect(typeof reporter).toBe('function');
+  });
+
+  it('loads a named reporter export', async () => {
+    const reporter = await loadCustomReporter('./stream-reporter.mjs', fixturesDir);
+    expect(typeof reporter).toBe('function');
+  });
+
+  it('rejects modules without a reporter function', async () => {
+    await expect(loadCustomReporter('invalid-reporter.mjs', fixturesDir)).rejects.toThrow(
+      'Invalid custom reporter invalid-reporter.mjs: expected a default or "reporter" export of type function'
+    );
+  });
+
+  it('rejects missing modules', async () => {
+    await expect(loadCustomReporter('missing.mjs', fixturesDir)).rejects.toThrow('Custom reporter not found: missing.mjs');
+  });
+});
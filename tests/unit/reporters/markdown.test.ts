@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'bun:test';
+import { formatMarkdown } from '../../../src/reporters/markdown.js';
+import { makeIssue, makeOutput, makeRun } from './helpers.js';
+
+describe('formatMarkdown', () => {
+  it('includes a summary table row per linter', () => {
+    const text = formatMarkdown(makeOutput([
+      makeIssue(),
+      makeIssue({ source: 'tsc', ruleId: 'tsc/TS2322', severity: 'warning' }),
+    ]));
+
+    expect(text).toContain('| eslint | 9.39.2 | ✅ | 50ms | 1 | 0 | 0 |');
+    expect(text).toContain('| tsc | 5.7.2 | ✅ | 80ms | 0 | 1 | 0 |');
+    expect(text).toContain('**2 issues** (1 errors, 1 warnings, 0 info, 0 fixable)');
+  });
+
+  it('counts issues about suppression comments under lintmesh', () => {
+    const text = formatMarkdown(makeOutput([makeIssue(), makeIssue({ ruleId: 'lintmesh/unused-suppression', severity: 'warning', message: 'Unused lintmesh-ignore-line directive.' })]));
+
+    expect(text).toContain('| eslint | 9.39.2 | ✅ | 50ms | 1 | 0 | 0 |');
+    expect(text).toContain('| lintmesh | - | ✅ | - | 0 | 1 | 0 |');
+  });
+
+  it('shows failed linters in the table', () => {
+    const text = formatMarkdown(makeOutput([], [makeRun({ success: false, error: 'config | broken' })]));
+
+    expect(text).toContain('| eslint | 9.39.2 | ❌ config \\| broken |');
+  });
+
+  it('renders a collapsible section per file', () => {
+    const text = formatMarkdown(makeOutput([
+      makeIssue(),
+      makeIssue({ path: 'src/bar.ts' }),
+      makeIssue({ path: 'src/bar.ts', line: 12 }),
+    ]));
+
+    expect(text.match(/<details>/g)).toHaveLength(2);
+    expect(text).toContain('<summary><code>src/bar.ts</code> (2)</summary>');
+  });
+
+  it('links rules to their docs', () => {
+    const docsUrl = 'https://eslint.org/docs/latest/rules/no-unused-vars';
+    const text = formatMarkdown(makeOutput([makeIssue({ meta: { docsUrl } })]));
+
+    expect(text).toContain(`[\`eslint/no-unused-vars\`](${docsUrl})`);
+  });
+
+  it('escapes HTML in messages', () => {
+    const text = formatMarkdown(makeOutput([makeIssue({ message: 'Type <T> is not assignable' })]));
+
+    expect(text).toContain('Type &lt;T&gt; is not assignable');
+  });
+
+  it('caps the number of listed issues', () => {
+    const issues = Array.from({ length: 5 }, (_, i) => makeIssue({ path: `src/f${i}.ts` }));
+    const text = formatMarkdown(makeOutput(issues), { maxIssues: 3 });
+
+    expect(text.match(/^- /gm)).toHaveLength(3);
+    expect(text).not.toContain('src/f3.ts');
+    expect(text).toContain('…and 2 more issues.');
+  });
+
+  it('omits the overflow line when everything fits', () => {
+    const text = formatMarkdown(makeOutput([makeIssue()]), { maxIssues: 1 });
+
+    expect(text).not.toContain('more issue');
+  });
+
+  it('notes a clean run', () => {
+    expect(formatMarkdown(makeOutput([]))).toContain('✅ No issues found.');
+  });
+});
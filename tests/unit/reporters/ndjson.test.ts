@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'bun:test';
+import { formatNdjson, formatNdjsonLinter, formatNdjsonSummary } from '../../../src/reporters/ndjson.js';
+import { makeIssue, makeOutput, makeRun } from './helpers.js';
+
+function parseLines(text: string): Array<Record<string, unknown>> {
+  return text.split('\n').map(line => JSON.parse(line));
+}
+
+describe('formatNdjsonLinter', () => {
+  it('emits the linter run then its issues', () => {
+    const lines = parseLines(formatNdjsonLinter({
+      run: makeRun(),
+      issues: [makeIssue(), makeIssue({ line: 20 })],
+    }));
+
+    expect(lines.map(l => l.type)).toEqual(['linter', 'issue', 'issue']);
+    expect(lines[0].name).toBe('eslint');
+    expect(lines[0].version).toBe('9.39.2');
+    expect(lines[2].line).toBe(20);
+  });
+});
+
+describe('formatNdjsonSummary', () => {
+  it('emits a summary record', () => {
+    const line = JSON.parse(formatNdjsonSummary(makeOutput([makeIssue()])));
+
+    expect(line.type).toBe('summary');
+    expect(line.summary.total).toBe(1);
+    expect(line.cwd).toBe('/project');
+  });
+});
+
+describe('formatNdjson', () => {
+  it('groups issues after their linter and ends with the summary', () => {
+    const lines = parseLines(formatNdjson(makeOutput([
+      makeIssue(),
+      makeIssue({ source: 'tsc', ruleId: 'tsc/TS2322' }),
+    ])));
+
+    expect(lines.map(l => l.type)).toEqual(['linter', 'issue', 'linter', 'linter', 'issue', 'summary']);
+    expect(lines[3].name).toBe('tsc');
+    expect(lines[4].ruleId).toBe('tsc/TS2322');
+  });
+
+  it('lists issues about suppression comments after every linter, as when streaming', () => {
+    const lines = parseLines(formatNdjson(makeOutput([makeIssue({ ruleId: 'lintmesh/unused-suppression', severity: 'warning', message: 'Unused lintmesh-ignore-line directive.' }), makeIssue()])));
+
+    expect(lines.map(l => [l.type, l.ruleId])).toEqual([
+      ['linter', undefined],
+      ['issue', 'eslint/no-unused-vars'],
+      ['linter', undefined],
+      ['linter', undefined],
+      ['issue', 'lintmesh/unused-suppression'],
+      ['summary', undefined],
+    ]);
+  });
+
+  it('puts issues after the run of their package in workspace mode', () => {
+    const lines = parseLines(formatNdjson(makeOutput(
+      [makeIssue({ path: 'packages/b/x.ts', package: 'b' }), makeIssue({ path: 'packages/a/x.ts', package: 'a' })],
+      [makeRun({ package: 'a' }), makeRun({ package: 'b' })]
+    )));
+
+    expect(lines.map(l => [l.type, l.package])).toEqual([
+      ['linter', 'a'],
+      ['issue', 'a'],
+      ['linter', 'b'],
+      ['issue', 'b'],
+      ['summary', undefined],
+    ]);
+  });
+});
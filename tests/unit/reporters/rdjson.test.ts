@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { ESLintAdapter } from '../../../src/linters/eslint.js';
+import { buildRdjson, formatRdjsonl } from '../../../src/reporters/rdjson.js';
+import { makeIssue, makeOutput } from './helpers.js';
+import type { VibelintOutput } from '../../../src/types.js';
+
+describe('rdjson reporter', () => {
+  let cwd: string;
+
+  beforeAll(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'lintmesh-'));
+    fs.mkdirSync(path.join(cwd, 'src'));
+    fs.writeFileSync(path.join(cwd, 'src/foo.ts'), 'const a = 1\nconst b = 2\n');
+  });
+
+  afterAll(() => {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  function withCwd(output: VibelintOutput): VibelintOutput {
+    return { ...output, cwd };
+  }
+
+  it('maps issues to diagnostics', () => {
+    const docsUrl = 'https://eslint.org/docs/latest/rules/no-unused-vars';
+    const result = buildRdjson(withCwd(makeOutput([makeIssue({ severity: 'warning', meta: { docsUrl } })])));
+
+    expect(result.source.name).toBe('lintmesh');
+    expect(result.diagnostics[0]).toEqual({
+      message: "'x' is defined but never used.",
+      location: {
+        path: 'src/foo.ts',
+        range: { start: { line: 10, column: 7 }, end: { line: 10, column: 12 } },
+      },
+      severity: 'WARNING',
+      source: { name: 'eslint' },
+      code: { value: 'eslint/no-unused-vars', url: docsUrl },
+    });
+  });
+
+  it('converts fix replacements to suggestions with line/column ranges', () => {
+    const result = buildRdjson(withCwd(makeOutput([
+      makeIssue({
+        line: 2,
+        fix: { replacements: [{ startOffset: 12, endOffset: 23, text: '' }, { startOffset: 11, endOffset: 11, text: ';' }] },
+      }),
+    ])));
+
+    expect(result.diagnostics[0].suggestions).toEqual([
+      { range: { start: { line: 2, column: 1 }, end: { line: 2, column: 12 } }, text: '' },
+      { range: { start: { line: 1, column: 12 }, end: { line: 1, column: 12 } }, text: ';' },
+    ]);
+  });
+
+  it('places suggestions for ESLint fixes after multi-byte text', () => {
+    const file = path.join(cwd, 'src/unicode.ts');
+    fs.writeFileSync(file, 'const s = "✓✓";\nlet a = 1;\n');
+    // ESLint reports UTF-16 indices: `let` starts at 16, but at byte 20
+    const stdout = JSON.stringify([{
+      filePath: file,
+      messages: [{ ruleId: 'prefer-const', severity: 2, message: 'Use const.', line: 2, column: 1, fix: { range: [16, 19], text: 'const' } }],
+    }]);
+
+    const result = buildRdjson(withCwd(makeOutput(new ESLintAdapter().parseOutput(stdout, cwd))));
+
+    expect(result.diagnostics[0].suggestions).toEqual([
+      { range: { start: { line: 2, column: 1 }, end: { line: 2, column: 4 } }, text: 'const' },
+    ]);
+  });
+
+  it('omits suggestions when the source file is missing', () => {
+    const result = buildRdjson(withCwd(makeOutput([
+      makeIssue({ path: 'src/missing.ts', fix: { replacements: [{ startOffset: 0, endOffset: 1, text: '' }] } }),
+    ])));
+
+    expect(result.diagnostics[0].suggestions).toBeUndefined();
+  });
+
+  it('formats rdjsonl as one diagnostic per line', () => {
+    const lines = formatRdjsonl(withCwd(makeOutput([makeIssue(), makeIssue({ line: 20 })]))).split('\n');
+
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1]).location.range.start.line).toBe(20);
+  });
+});
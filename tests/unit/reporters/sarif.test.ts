@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'bun:test';
+import { buildSarifLog, formatSarif } from '../../../src/reporters/sarif.js';
+import { SarifLogSchema } from '../../../src/sarif-schema.js';
+import { makeIssue, makeOutput, makeRun } from './helpers.js';
+
+describe('buildSarifLog', () => {
+  it('produces a log matching the SARIF schema', () => {
+    const log = buildSarifLog(makeOutput([
+      makeIssue({ meta: { docsUrl: 'https://eslint.org/docs/latest/rules/no-unused-vars' } }),
+      makeIssue({ source: 'tsc', ruleId: 'tsc/TS2322', severity: 'warning', message: 'Type mismatch' }),
+    ]));
+
+    const result = SarifLogSchema.safeParse(log);
+    expect(result.success).toBe(true);
+    expect(log.version).toBe('2.1.0');
+  });
+
+  it('creates one run per linter with tool name and version', () => {
+    const log = buildSarifLog(makeOutput([]));
+
+    expect(log.runs).toHaveLength(3);
+    expect(log.runs[0].tool.driver.name).toBe('eslint');
+    expect(log.runs[0].tool.driver.version).toBe('9.39.2');
+    expect(log.runs[2].tool.driver.name).toBe('tsc');
+  });
+
+  it('assigns issues to the run of their source linter', () => {
+    const log = buildSarifLog(makeOutput([
+      makeIssue(),
+      makeIssue({ source: 'tsc', ruleId: 'tsc/TS2322' }),
+    ]));
+
+    expect(log.runs[0].results.map(r => r.ruleId)).toEqual(['eslint/no-unused-vars']);
+    expect(log.runs[1].results).toHaveLength(0);
+    expect(log.runs[2].results.map(r => r.ruleId)).toEqual(['tsc/TS2322']);
+  });
+
+  it('puts issues about suppression comments in a lintmesh run', () => {
+    const log = buildSarifLog(makeOutput([makeIssue(), makeIssue({ ruleId: 'lintmesh/unused-suppression', severity: 'warning', message: 'Unused lintmesh-ignore-line directive.' })]));
+
+    expect(SarifLogSchema.safeParse(log).success).toBe(true);
+    expect(log.runs.map(run => run.tool.driver.name)).toEqual(['eslint', 'oxlint', 'tsc', 'lintmesh']);
+    expect(log.runs[0].results.map(r => r.ruleId)).toEqual(['eslint/no-unused-vars']);
+    expect(log.runs[3].tool.driver.rules.map(rule => rule.id)).toEqual(['lintmesh/unused-suppression']);
+    expect(log.runs[3].results).toHaveLength(1);
+  });
+
+  it('maps region and severity level', () => {
+    const log = buildSarifLog(makeOutput([makeIssue({ severity: 'info' })]));
+    const result = log.runs[0].results[0];
+
+    expect(result.level).toBe('note');
+    expect(result.locations[0].physicalLocation.artifactLocation.uri).toBe('src/foo.ts');
+    expect(result.locations[0].physicalLocation.region).toEqual({
+      startLine: 10,
+      startColumn: 7,
+      endLine: 10,
+      endColumn: 12,
+    });
+  });
+
+  it('uses docsUrl as rule helpUri and deduplicates rules', () => {
+    const docsUrl = 'https://eslint.org/docs/latest/rules/no-unused-vars';
+    const log = buildSarifLog(makeOutput([
+      makeIssue({ meta: { docsUrl } }),
+      makeIssue({ line: 20, endLine: 20, message: "'y' is defined but never used.", meta: { docsUrl } }),
+    ]));
+
+    const run = log.runs[0];
+    expect(run.tool.driver.rules).toHaveLength(1);
+    expect(run.tool.driver.rules[0].helpUri).toBe(docsUrl);
+    expect(run.results.every(r => r.ruleIndex === 0)).toBe(true);
+  });
+
+  it('keeps fingerprints stable when lines shift', () => {
+    const before = buildSarifLog(makeOutput([makeIssue()]));
+    const after = buildSarifLog(makeOutput([makeIssue({ line: 42, endLine: 42 })]));
+
+    expect(before.runs[0].results[0].partialFingerprints)
+      .toEqual(after.runs[0].results[0].partialFingerprints);
+  });
+
+  it('gives repeated identical issues distinct fingerprints', () => {
+    const log = buildSarifLog(makeOutput([makeIssue(), makeIssue({ line: 20, endLine: 20 })]));
+    const [a, b] = log.runs[0].results.map(r => Object.values(r.partialFingerprints)[0]);
+
+    expect(a).not.toBe(b);
+  });
+
+  it('reports failed linters as unsuccessful invocations', () => {
+    const log = buildSarifLog(makeOutput([], [
+      makeRun({ name: 'tsc', version: 'unknown', success: false, error: 'timed out', durationMs: 10, filesProcessed: 0 }),
+    ]));
+
+    const invocation = log.runs[0].invocations[0];
+    expect(invocation.executionSuccessful).toBe(false);
+    expect(invocation.toolExecutionNotifications?.[0].message.text).toBe('timed out');
+  });
+});
+
+describe('formatSarif', () => {
+  it('returns valid JSON', () => {
+    const text = formatSarif(makeOutput([makeIssue()]));
+
+    expect(() => JSON.parse(text)).not.toThrow();
+  });
+
+  it('pretty-prints when requested', () => {
+    const text = formatSarif(makeOutput([]), true);
+
+    expect(text.split('\n').length).toBeGreaterThan(1);
+  });
+});
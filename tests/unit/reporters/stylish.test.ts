@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { formatStylish } from '../../../src/reporters/stylish.js';
+import { makeIssue, makeOutput } from './helpers.js';
+
+const SOURCE = [
+  'import fs from "node:fs";',
+  '',
+  'function main() {',
+  '\tconst unused = 1;',
+  '  return fs;',
+  '}',
+  '',
+].join('\n');
+
+describe('formatStylish', () => {
+  let cwd: string;
+
+  beforeAll(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'lintmesh-'));
+    fs.mkdirSync(path.join(cwd, 'src'));
+    fs.writeFileSync(path.join(cwd, 'src/foo.ts'), SOURCE);
+  });
+
+  afterAll(() => {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('groups issues under a file header', () => {
+    const text = formatStylish(makeOutput([
+      makeIssue({ line: 4, column: 8, endLine: 4, endColumn: 14 }),
+      makeIssue({ line: 5, column: 3, endLine: 5, endColumn: 9, ruleId: 'eslint/semi', severity: 'warning' }),
+    ]), { cwd, colors: false });
+
+    const lines = text.split('\n');
+    expect(lines[0]).toBe('src/foo.ts');
+    expect(text.match(/^src\/foo\.ts$/gm)).toHaveLength(1);
+    expect(text).toContain("  src/foo.ts:4:8 error 'x' is defined but never used. eslint/no-unused-vars");
+    expect(text).toContain('✖ 2 problems (1 errors, 1 warnings, 0 info)');
+  });
+
+  it('renders a code frame with carets under the range', () => {
+    const text = formatStylish(makeOutput([
+      makeIssue({ line: 4, column: 8, endLine: 4, endColumn: 14 }),
+    ]), { cwd, colors: false });
+
+    expect(text).toContain([
+      '    2 | ',
+      '    3 | function main() {',
+      '  > 4 | \tconst unused = 1;',
+      '      | \t      ^^^^^^',
+      '    5 |   return fs;',
+      '    6 | }',
+    ].join('\n'));
+  });
+
+  it('marks every line of a multi-line range', () => {
+    const text = formatStylish(makeOutput([
+      makeIssue({ line: 3, column: 1, endLine: 6, endColumn: 2 }),
+    ]), { cwd, colors: false });
+
+    expect(text).toContain('  > 3 | function main() {\n      | ^^^^^^^^^^^^^^^^^');
+    expect(text).toContain('  > 6 | }\n      | ^');
+  });
+
+  it('skips the code frame when the file cannot be read', () => {
+    const text = formatStylish(makeOutput([makeIssue({ path: 'src/missing.ts' })]), { cwd, colors: false });
+
+    expect(text).not.toContain(' | ');
+  });
+
+  it('emits OSC 8 hyperlinks for files and rule docs when colors are on', () => {
+    const docsUrl = 'https://eslint.org/docs/latest/rules/no-unused-vars';
+    const text = formatStylish(makeOutput([
+      makeIssue({ line: 4, column: 8, endLine: 4, endColumn: 14, meta: { docsUrl } }),
+    ]), { cwd, colors: true });
+
+    expect(text).toContain(`\x1b]8;;file://${path.join(cwd, 'src/foo.ts')}\x1b\\`);
+    expect(text).toContain(`\x1b]8;;${docsUrl}\x1b\\`);
+  });
+
+  it('reports failed linters and clean runs', () => {
+    const output = makeOutput([]);
+    output.linters[0] = { ...output.linters[0], success: false, error: 'boom' };
+
+    const text = formatStylish(output, { cwd, colors: false });
+    expect(text).toContain('✗ eslint failed: boom');
+    expect(text).toContain('✔ No issues found');
+  });
+});
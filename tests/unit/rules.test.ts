@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'bun:test';
+import { RULE_EQUIVALENCES, RuleEquivalence, RuleSeverities, ruleKey } from '../../src/rules.js';
+import { makeIssue } from './reporters/helpers.js';
+
+describe('ruleKey', () => {
+  it('strips linter namespaces and plugins that port core rules', () => {
+    expect(ruleKey('eslint/no-unused-vars')).toBe('no-unused-vars');
+    expect(ruleKey('eslint/@typescript-eslint/no-unused-vars')).toBe('no-unused-vars');
+    expect(ruleKey('oxlint/eslint(no-unused-vars)')).toBe('no-unused-vars');
+    expect(ruleKey('oxlint/typescript-eslint(no-unused-vars)')).toBe('no-unused-vars');
+    expect(ruleKey('tsc/TS2322')).toBe('TS2322');
+  });
+
+  it('keeps other plugin namespaces, spelled the ESLint way', () => {
+    expect(ruleKey('eslint/import/no-deprecated')).toBe('import/no-deprecated');
+    expect(ruleKey('eslint/react/no-deprecated')).toBe('react/no-deprecated');
+    expect(ruleKey('eslint/@stylistic/semi')).toBe('@stylistic/semi');
+    expect(ruleKey('eslint/@next/next/no-img-element')).toBe('@next/next/no-img-element');
+    expect(ruleKey('oxlint/eslint-plugin-import(no-cycle)')).toBe('import/no-cycle');
+    expect(ruleKey('oxlint/oxc(no-const-enum)')).toBe('oxc/no-const-enum');
+  });
+});
+
+describe('RuleEquivalence', () => {
+  const rules = new RuleEquivalence();
+
+  it('maps every linter spelling of a rule to one canonical ID', () => {
+    for (const ruleId of [
+      'eslint/no-unused-vars',
+      'eslint/@typescript-eslint/no-unused-vars',
+      'oxlint/eslint(no-unused-vars)',
+      'biome/noUnusedVariables',
+      'tsc/TS6133',
+    ]) {
+      expect(rules.canonical(ruleId)).toBe('no-unused-vars');
+    }
+  });
+
+  it('falls back to the rule ID without the linter for unknown rules', () => {
+    expect(rules.canonical('biome/useFancyThing')).toBe('useFancyThing');
+    expect(rules.canonical('tsc/TS2322')).toBe('TS2322');
+    expect(rules.canonical('eslint/import/no-deprecated')).toBe('import/no-deprecated');
+  });
+
+  it('lets config add and override equivalences', () => {
+    const extended = new RuleEquivalence({
+      'no-unused-vars': ['biome/noUnusedFunctionParameters'],
+      'no-console-log': ['biome/noConsoleLog'],
+    });
+    expect(extended.canonical('biome/noUnusedFunctionParameters')).toBe('no-unused-vars');
+    expect(extended.canonical('biome/noConsoleLog')).toBe('no-console-log');
+    expect(extended.canonical('biome/noConsole')).toBe('no-console');
+  });
+
+  it('uses canonical IDs that are their own rule keys', () => {
+    for (const canonical of Object.keys(RULE_EQUIVALENCES)) {
+      expect(ruleKey(canonical)).toBe(canonical);
+    }
+  });
+});
+
+describe('RuleSeverities', () => {
+  it('re-grades matching issues and records the original severity', () => {
+    const severities = new RuleSeverities({ 'tsc/TS6133': 'warning' });
+    const [issue] = severities.apply([makeIssue({ ruleId: 'tsc/TS6133', source: 'tsc' })]);
+    expect(issue.severity).toBe('warning');
+    expect(issue.originalSeverity).toBe('error');
+  });
+
+  it('drops issues whose rule is off', () => {
+    const severities = new RuleSeverities({ 'oxlint/*': 'off' });
+    const issues = severities.apply([
+      makeIssue({ ruleId: 'oxlint/eslint(no-debugger)', source: 'oxlint' }),
+      makeIssue({ ruleId: 'eslint/no-debugger' }),
+    ]);
+    expect(issues.map(i => i.ruleId)).toEqual(['eslint/no-debugger']);
+  });
+
+  it('prefers exact keys, then longer globs', () => {
+    const severities = new RuleSeverities({
+      'eslint/no-console': 'info',
+      'eslint/*': 'off',
+      'eslint/@typescript-eslint/*': 'warning',
+    });
+    expect(severities.setting(makeIssue({ ruleId: 'eslint/no-console' }))).toBe('info');
+    expect(severities.setting(makeIssue({ ruleId: 'eslint/@typescript-eslint/no-explicit-any' }))).toBe('warning');
+    expect(severities.setting(makeIssue({ ruleId: 'eslint/eqeqeq' }))).toBe('off');
+    expect(severities.setting(makeIssue({ ruleId: 'tsc/TS2322' }))).toBeUndefined();
+  });
+
+  it('matches canonical rule IDs and leaves unchanged severities unmarked', () => {
+    const severities = new RuleSeverities({ 'no-unused-vars': 'error' });
+    const [issue] = severities.apply([
+      makeIssue({ ruleId: 'biome/noUnusedVariables', canonicalRuleId: 'no-unused-vars', source: 'biome' }),
+    ]);
+    expect(issue.severity).toBe('error');
+    expect(issue.originalSeverity).toBeUndefined();
+  });
+});
@@ -0,0 +1,284 @@
+import { describe, it, expect } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { buildOutput, runLinters, streamLinters, type LinterCompletion } from '../../src/runner.js';
+import type { CliOptions, LinterRun } from '../../src/types.js';
+import { makeIssue } from './reporters/helpers.js';
+
+const fixturesDir = path.join(import.meta.dir, '../fixtures');
+
+function makeOptions(overrides: Partial<CliOptions> = {}): CliOptions {
+  return {
+    files: [path.join(fixturesDir, 'eslint-errors.ts')],
+    exclude: [],
+    json: true,
+    pretty: false,
+    linters: ['eslint'],
+    failOn: 'error',
+    timeout: 30000,
+    cwd: process.cwd(),
+    quiet: true,
+    verbose: false,
+    interactive: false,
+    fix: false,
+    ...overrides,
+  };
+}
+
+function makeRun(name: LinterRun['name']): LinterRun {
+  return { name, version: '1.0.0', success: true, durationMs: 1, filesProcessed: 1 };
+}
+
+describe('streamLinters', () => {
+  it('yields one completion per linter', async () => {
+    const completions: LinterCompletion[] = [];
+    for await (const completion of streamLinters(makeOptions())) {
+      completions.push(completion);
+    }
+
+    expect(completions).toHaveLength(1);
+    expect(completions[0].run.name).toBe('eslint');
+    expect(completions[0].run.binSource).toBe('local');
+    expect(completions[0].issues.length).toBeGreaterThan(0);
+  });
+
+  it('yields nothing when no files match', async () => {
+    const completions: LinterCompletion[] = [];
+    for await (const completion of streamLinters(makeOptions({ files: ['does-not-exist/**/*.ts'] }))) {
+      completions.push(completion);
+    }
+
+    expect(completions).toHaveLength(0);
+  });
+});
+
+describe('runLinters', () => {
+  it('calls onLinter for each finished linter', async () => {
+    const seen: string[] = [];
+    const output = await runLinters(makeOptions(), completion => seen.push(completion.run.name));
+
+    expect(seen).toEqual(['eslint']);
+    expect(output.summary.total).toBe(output.issues.length);
+  });
+
+  it('applies rule severity overrides before the summary', async () => {
+    const output = await runLinters(makeOptions({ rules: { 'eslint/*': 'warning', 'no-console': 'off' } }));
+
+    expect(output.issues.length).toBeGreaterThan(0);
+    expect(output.issues.every(i => i.severity === 'warning' && i.originalSeverity !== 'warning')).toBe(true);
+    expect(output.issues.some(i => i.canonicalRuleId === 'no-console')).toBe(false);
+    expect(output.summary.errors).toBe(0);
+  });
+
+  it('applies config overrides to matching files', async () => {
+    const fixture = path.relative(process.cwd(), path.join(fixturesDir, 'eslint-errors.ts'));
+    const regraded = await runLinters(makeOptions({ overrides: [{ files: [fixture], rules: { 'eslint/*': 'info' } }] }));
+    expect(regraded.issues.length).toBeGreaterThan(0);
+    expect(regraded.summary.info).toBe(regraded.issues.length);
+
+    const disabled = await runLinters(makeOptions({ overrides: [{ files: ['tests/fixtures/**'], linters: { eslint: { enabled: false } } }] }));
+    expect(disabled.linters.map(l => l.name)).toEqual(['eslint']);
+    expect(disabled.issues).toEqual([]);
+  });
+
+  it('drops project-wide issues in files where an override turns the linter off', async () => {
+    const root = path.join(fixturesDir, 'override-tmp');
+    fs.mkdirSync(path.join(root, 'tests'), { recursive: true });
+    fs.writeFileSync(path.join(root, 'tsconfig.json'), JSON.stringify({
+      compilerOptions: { strict: true, noEmit: true, lib: ['es5'], types: [] },
+      include: ['**/*.ts'],
+    }));
+    fs.writeFileSync(path.join(root, 'a.ts'), 'export const a: number = "a";\n');
+    fs.writeFileSync(path.join(root, 'tests/b.ts'), 'export const b: number = "b";\n');
+
+    try {
+      const output = await runLinters(makeOptions({
+        files: ['.'],
+        cwd: root,
+        linters: ['tsc'],
+        overrides: [{ files: ['tests/**'], linters: { tsc: { enabled: false } } }],
+      }));
+      expect(output.issues.map(i => [i.path, i.ruleId])).toEqual([['a.ts', 'tsc/TS2322']]);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it('reports baseline entries as unmatched only for files the linter checked', async () => {
+    const fixture = path.relative(process.cwd(), path.join(fixturesDir, 'eslint-errors.ts'));
+    const entry = (file: string, ruleId: string) => ({ fingerprint: `${file}:${ruleId}`, path: file, ruleId, message: 'gone' });
+    const output = await runLinters(makeOptions({
+      baseline: {
+        path: 'baseline.json',
+        entries: [
+          entry(fixture, 'eslint/no-var'),
+          entry(fixture, 'tsc/TS2322'),
+          entry(path.join('tests/fixtures/other.ts'), 'eslint/no-var'),
+        ],
+      },
+    }));
+
+    expect(output.baseline?.unmatched.map(e => [e.path, e.ruleId])).toEqual([[fixture, 'eslint/no-var']]);
+  });
+
+  it('drops issues covered by lintmesh-ignore comments and reports unused ones', async () => {
+    const file = path.join(fixturesDir, 'suppressions-tmp.ts');
+    fs.writeFileSync(file, [
+      '// lintmesh-ignore-next-line no-unused-vars -- fixture',
+      'const unusedVar = 42;',
+      '// lintmesh-ignore-next-line eslint/no-console',
+      'export const used = 1;',
+      '',
+    ].join('\n'));
+
+    try {
+      const output = await runLinters(makeOptions({ files: [file] }));
+      expect(output.issues.map(i => [i.line, i.ruleId])).toEqual([[3, 'lintmesh/unused-suppression']]);
+      expect(output.summary.warnings).toBe(1);
+    } finally {
+      fs.rmSync(file, { force: true });
+    }
+  });
+});
+
+describe('runLinters in workspace mode', () => {
+  it('runs each package in its own directory, with paths relative to the root', async () => {
+    const root = path.join(fixturesDir, 'workspace-tmp');
+    const write = (file: string, content: string) => {
+      fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+      fs.writeFileSync(path.join(root, file), content);
+    };
+    const source = fs.readFileSync(path.join(fixturesDir, 'eslint-errors.ts'), 'utf-8');
+    write('package.json', JSON.stringify({ name: 'monorepo', workspaces: ['packages/*'] }));
+    write('packages/web/package.json', JSON.stringify({ name: '@acme/web' }));
+    write('packages/web/src/a.ts', source);
+
+    try {
+      const output = await runLinters(makeOptions({ files: ['.'], cwd: root, workspaces: true }));
+      expect(output.linters.map(l => [l.name, l.package, l.success, l.binSource])).toEqual([
+        ['eslint', '@acme/web', true, 'parent'],
+      ]);
+      expect(output.issues.length).toBeGreaterThan(0);
+      expect(new Set(output.issues.map(i => `${i.package}:${i.path}`))).toEqual(
+        new Set([`@acme/web:${path.join('packages/web/src/a.ts')}`])
+      );
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+  it('credits issues from project-wide linters only to the package containing them', async () => {
+    const root = path.join(fixturesDir, 'workspace-tsc-tmp');
+    const write = (file: string, content: string) => {
+      fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+      fs.writeFileSync(path.join(root, file), content);
+    };
+    const tsconfig = JSON.stringify({ compilerOptions: { strict: true, noEmit: true, lib: ['es5'], types: [] } });
+    write('package.json', JSON.stringify({ name: 'monorepo', workspaces: ['packages/*'] }));
+    write('tsconfig.json', tsconfig);
+    write('root.ts', 'export const root = 1;\n');
+    write('packages/a/package.json', JSON.stringify({ name: 'a' }));
+    write('packages/a/tsconfig.json', tsconfig);
+    write('packages/a/src/x.ts', 'export const x: number = "x";\n');
+
+    try {
+      const output = await runLinters(makeOptions({ files: ['.'], cwd: root, linters: ['tsc'], workspaces: true }));
+      expect(output.linters.map(l => [l.package, l.success])).toEqual([['a', true], ['monorepo', true]]);
+      expect(output.issues.map(i => [i.package, i.path, i.ruleId])).toEqual([
+        ['a', path.join('packages/a/src/x.ts'), 'tsc/TS2322'],
+      ]);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+    }, 15000);
+
+  it('runs linters installed only in a package', async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'lintmesh-'));
+    const pkg = path.join(root, 'packages/a');
+    fs.mkdirSync(pkg, { recursive: true });
+    fs.writeFileSync(path.join(root, 'package.json'), JSON.stringify({ workspaces: ['packages/*'] }));
+    fs.writeFileSync(path.join(pkg, 'package.json'), JSON.stringify({ name: 'a' }));
+    fs.writeFileSync(path.join(pkg, 'eslint.config.js'), "export default [{ rules: { 'no-var': 'error' } }];\n");
+    fs.writeFileSync(path.join(pkg, 'index.js'), 'var a = 1;\nexport { a };\n');
+    fs.symlinkSync(path.join(process.cwd(), 'node_modules'), path.join(pkg, 'node_modules'));
+
+    try {
+      const output = await runLinters(makeOptions({ files: ['packages'], cwd: root, workspaces: true }));
+      expect(output.linters.map(l => [l.name, l.package, l.binSource])).toEqual([['eslint', 'a', 'local']]);
+      expect(output.issues.map(i => [i.path, i.ruleId])).toEqual([[path.join('packages/a/index.js'), 'eslint/no-var']]);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('buildOutput', () => {
+  it('orders linters as requested, regardless of completion order', () => {
+    const output = buildOutput(
+      makeOptions({ linters: ['eslint', 'oxlint', 'tsc'] }),
+      [
+        { run: makeRun('oxlint'), issues: [] },
+        { run: makeRun('tsc'), issues: [] },
+        { run: makeRun('eslint'), issues: [] },
+      ],
+      Date.now()
+    );
+
+    expect(output.linters.map(l => l.name)).toEqual(['eslint', 'oxlint', 'tsc']);
+  });
+
+  it('orders runs of the same linter by package', () => {
+    const output = buildOutput(
+      makeOptions({ linters: ['eslint', 'tsc'] }),
+      [
+        { run: { ...makeRun('tsc'), package: 'web' }, issues: [] },
+        { run: { ...makeRun('eslint'), package: 'web' }, issues: [] },
+        { run: { ...makeRun('tsc'), package: 'api' }, issues: [] },
+        { run: { ...makeRun('eslint'), package: 'api' }, issues: [] },
+      ],
+      Date.now()
+    );
+
+    expect(output.linters.map(l => `${l.name}:${l.package}`)).toEqual(['eslint:api', 'eslint:web', 'tsc:api', 'tsc:web']);
+  });
+
+  it('counts fixable issues and issues with suggestions separately', () => {
+    const fix = { replacements: [{ startOffset: 0, endOffset: 1, text: '' }] };
+    const output = buildOutput(
+      makeOptions(),
+      [
+        {
+          run: makeRun('eslint'),
+          issues: [
+            makeIssue({ fix }),
+            makeIssue({ line: 2, suggestions: [{ description: 'Remove it', fix }] }),
+            makeIssue({ line: 3 }),
+          ],
+        },
+      ],
+      Date.now()
+    );
+
+    expect(output.summary).toMatchObject({ total: 3, fixable: 1, suggestions: 1 });
+  });
+
+  it('counts merged duplicates once in the summary', () => {
+    const eslint = makeIssue({ ruleId: 'eslint/no-unused-vars', source: 'eslint' });
+    const oxlint = makeIssue({ ruleId: 'oxlint/eslint(no-unused-vars)', source: 'oxlint' });
+    const completions = [
+      { run: makeRun('eslint'), issues: [eslint] },
+      { run: makeRun('oxlint'), issues: [oxlint] },
+    ];
+
+    const unmerged = buildOutput(makeOptions({ linters: ['eslint', 'oxlint'] }), completions, Date.now());
+    expect(unmerged.summary.total).toBe(2);
+
+    const merged = buildOutput(
+      makeOptions({ linters: ['eslint', 'oxlint'], merge: { priority: ['oxlint', 'eslint'] } }),
+      completions,
+      Date.now()
+    );
+    expect(merged.summary).toMatchObject({ total: 1, errors: 1 });
+    expect(merged.issues[0].sources).toEqual(['oxlint', 'eslint']);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { execa } from 'execa';
+import { StagedTree, installHook } from '../../src/staged.js';
+import { makeIssue } from './reporters/helpers.js';
+
+let repo: string;
+
+const git = (...args: string[]) => execa('git', args, { cwd: repo });
+const write = (file: string, content: string) => fs.writeFileSync(path.join(repo, file), content);
+const read = (file: string) => fs.readFileSync(path.join(repo, file), 'utf-8');
+
+beforeEach(async () => {
+  repo = fs.mkdtempSync(path.join(os.tmpdir(), 'lintmesh-staged-test-'));
+  await git('init', '-q');
+  await git('config', 'user.email', 'test@example.com');
+  await git('config', 'user.name', 'Test');
+  write('a.ts', 'one\ntwo\nthree\n');
+  write('b.ts', 'unchanged\n');
+  await git('add', '.');
+  await git('commit', '-q', '-m', 'initial');
+});
+
+afterEach(() => {
+  fs.rmSync(repo, { recursive: true, force: true });
+});
+
+describe('StagedTree', () => {
+  it('exports staged content, not the working tree', async () => {
+    write('a.ts', 'one\nTWO\nthree\n');
+    await git('add', 'a.ts');
+    write('a.ts', 'one\nTWO\nthree\nunstaged\n');
+
+    const tree = await StagedTree.create(repo);
+    try {
+      expect(fs.readFileSync(path.join(tree.cwd, 'a.ts'), 'utf-8')).toBe('one\nTWO\nthree\n');
+      expect(fs.existsSync(path.join(tree.cwd, 'b.ts'))).toBe(true);
+      expect([...tree.changes]).toEqual([['a.ts', [[2, 2]]]]);
+    } finally {
+      tree.cleanup();
+    }
+    expect(fs.existsSync(tree.root)).toBe(false);
+  });
+
+  it('mirrors a subdirectory cwd', async () => {
+    fs.mkdirSync(path.join(repo, 'pkg'));
+    write('pkg/c.ts', 'c\n');
+    await git('add', 'pkg/c.ts');
+
+    const tree = await StagedTree.create(path.join(repo, 'pkg'));
+    try {
+      expect(tree.cwd).toBe(path.join(tree.root, 'pkg'));
+      expect([...tree.changes.keys()]).toEqual(['c.ts']);
+    } finally {
+      tree.cleanup();
+    }
+  });
+
+  it('maps temporary paths in messages back to the repo', async () => {
+    const tree = await StagedTree.create(repo);
+    try {
+      const issue = makeIssue({ message: `Cannot find module '${path.join(tree.cwd, 'x.ts')}'` });
+      expect(tree.mapIssue(issue).message).toBe(`Cannot find module '${path.join(path.resolve(repo), 'x.ts')}'`);
+    } finally {
+      tree.cleanup();
+    }
+  });
+
+  it('stages fixes and merges them into the working tree', async () => {
+    write('a.ts', 'one\nTWO\nthree\n');
+    await git('add', 'a.ts');
+    write('a.ts', 'one\nTWO\nthree\nunstaged\n');
+
+    const tree = await StagedTree.create(repo);
+    try {
+      // Simulate a linter fixing the staged copy
+      fs.writeFileSync(path.join(tree.cwd, 'a.ts'), 'ONE\nTWO\nthree\n');
+      const result = await tree.applyFixes();
+      expect(result).toEqual({ updated: ['a.ts'], conflicts: [] });
+    } finally {
+      tree.cleanup();
+    }
+
+    expect((await git('show', ':a.ts')).stdout).toBe('ONE\nTWO\nthree');
+    expect(read('a.ts')).toBe('ONE\nTWO\nthree\nunstaged\n');
+  });
+
+  it('stages fixes into a relative GIT_INDEX_FILE, as git sets it for hooks', async () => {
+    write('a.ts', 'one\nTWO\nthree\n');
+    await git('add', 'a.ts');
+
+    const tree = await StagedTree.create(repo);
+    const original = process.env.GIT_INDEX_FILE;
+    process.env.GIT_INDEX_FILE = path.join('.git', 'index');
+    try {
+      fs.writeFileSync(path.join(tree.cwd, 'a.ts'), 'ONE\nTWO\nthree\n');
+      expect(await tree.applyFixes()).toEqual({ updated: ['a.ts'], conflicts: [] });
+    } finally {
+      if (original === undefined) {
+        delete process.env.GIT_INDEX_FILE;
+      } else {
+        process.env.GIT_INDEX_FILE = original;
+      }
+      tree.cleanup();
+    }
+
+    expect((await git('show', ':a.ts')).stdout).toBe('ONE\nTWO\nthree');
+  });
+
+  it('leaves the working tree alone when the fix conflicts', async () => {
+    write('a.ts', 'one\nTWO\nthree\n');
+    await git('add', 'a.ts');
+    write('a.ts', 'one\nunstaged\nthree\n');
+
+    const tree = await StagedTree.create(repo);
+    try {
+      fs.writeFileSync(path.join(tree.cwd, 'a.ts'), 'one\nFIXED\nthree\n');
+      const result = await tree.applyFixes();
+      expect(result).toEqual({ updated: ['a.ts'], conflicts: ['a.ts'] });
+    } finally {
+      tree.cleanup();
+    }
+
+    expect((await git('show', ':a.ts')).stdout).toBe('one\nFIXED\nthree');
+    expect(read('a.ts')).toBe('one\nunstaged\nthree\n');
+  });
+
+  it('reports nothing when linters changed nothing', async () => {
+    write('a.ts', 'one\nTWO\nthree\n');
+    await git('add', 'a.ts');
+
+    const tree = await StagedTree.create(repo);
+    try {
+      expect(await tree.applyFixes()).toEqual({ updated: [], conflicts: [] });
+    } finally {
+      tree.cleanup();
+    }
+  });
+});
+
+describe('installHook', () => {
+  it('writes an executable pre-commit hook', async () => {
+    const hookPath = await installHook({ cwd: repo });
+
+    expect(hookPath).toBe(path.join(repo, '.git', 'hooks', 'pre-commit'));
+    expect(fs.readFileSync(hookPath, 'utf-8')).toContain('lintmesh --staged\n');
+    expect(fs.statSync(hookPath).mode & 0o111).not.toBe(0);
+  });
+
+  it('adds --fix when requested', async () => {
+    const hookPath = await installHook({ cwd: repo, fix: true });
+    expect(fs.readFileSync(hookPath, 'utf-8')).toContain('lintmesh --staged --fix\n');
+  });
+
+  it('refuses to overwrite an existing hook without force', async () => {
+    await installHook({ cwd: repo });
+    await expect(installHook({ cwd: repo })).rejects.toThrow('Hook already exists');
+    await installHook({ cwd: repo, force: true, fix: true });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  MISSING_REASON_RULE,
+  SuppressionMatcher,
+  UNUSED_SUPPRESSION_RULE,
+  parseDirectives,
+} from '../../src/suppressions.js';
+import { makeIssue, makeRun } from './reporters/helpers.js';
+
+describe('parseDirectives', () => {
+  it('parses rules and reason from a line comment', () => {
+    const content = 'const a = 1;\n  // lintmesh-ignore-next-line eslint/no-console, tsc/TS2345 -- legacy API\nconsole.log(a);\n';
+    expect(parseDirectives('a.ts', content)).toEqual([{
+      path: 'a.ts',
+      line: 2,
+      column: 3,
+      endColumn: 75,
+      kind: 'next-line',
+      rules: ['eslint/no-console', 'tsc/TS2345'],
+      reason: 'legacy API',
+    }]);
+  });
+
+  it('parses block comments and file directives without rules', () => {
+    const [directive] = parseDirectives('a.ts', '/* lintmesh-ignore-file -- generated */\n');
+    expect(directive.kind).toBe('file');
+    expect(directive.rules).toEqual([]);
+    expect(directive.reason).toBe('generated');
+  });
+
+  it('leaves the reason undefined when there is none', () => {
+    const [directive] = parseDirectives('a.ts', '// lintmesh-ignore-next-line no-console\n');
+    expect(directive.rules).toEqual(['no-console']);
+    expect(directive.reason).toBeUndefined();
+  });
+
+  it('ignores text that only starts like a directive', () => {
+    expect(parseDirectives('a.ts', '// lintmesh-ignore-next-lines\nconst s = "lintmesh-ignore-file";\n')).toEqual([]);
+  });
+});
+
+describe('SuppressionMatcher', () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'lintmesh-'));
+    fs.writeFileSync(path.join(cwd, 'a.ts'), [
+      '// lintmesh-ignore-next-line eslint/no-console -- debugging',
+      'console.log(1);',
+      '// lintmesh-ignore-next-line no-unused-vars tsc/TS2345',
+      'const unused = 1;',
+      '',
+    ].join('\n'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('drops issues on the next line whose rule or canonical rule matches', () => {
+    const matcher = new SuppressionMatcher(cwd);
+    const issues = [
+      makeIssue({ path: 'a.ts', line: 2, ruleId: 'eslint/no-console' }),
+      makeIssue({ path: 'a.ts', line: 4, ruleId: 'biome/noUnusedVariables', canonicalRuleId: 'no-unused-vars', source: 'biome' }),
+      makeIssue({ path: 'a.ts', line: 4, ruleId: 'eslint/eqeqeq' }),
+      makeIssue({ path: 'a.ts', line: 3, ruleId: 'eslint/no-console' }),
+    ];
+    expect(matcher.filter(issues).map(i => [i.line, i.ruleId])).toEqual([
+      [4, 'eslint/eqeqeq'],
+      [3, 'eslint/no-console'],
+    ]);
+  });
+
+  it('drops every issue in a file with a file directive', () => {
+    fs.writeFileSync(path.join(cwd, 'b.ts'), '// lintmesh-ignore-file\nvar a = 1;\n');
+    const matcher = new SuppressionMatcher(cwd);
+    expect(matcher.filter([makeIssue({ path: 'b.ts', line: 2 }), makeIssue({ path: 'c.ts', line: 2 })]))
+      .toHaveLength(1);
+  });
+
+  it('reports unused rules of linters that ran successfully', () => {
+    const matcher = new SuppressionMatcher(cwd);
+    matcher.scan(['a.ts']);
+    matcher.filter([makeIssue({ path: 'a.ts', line: 2, ruleId: 'eslint/no-console' })]);
+
+    // tsc failed, so its rule can't be called unused
+    const issues = matcher.report([makeRun(), makeRun({ name: 'tsc', success: false })]);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      path: 'a.ts',
+      line: 3,
+      column: 1,
+      severity: 'warning',
+      ruleId: UNUSED_SUPPRESSION_RULE,
+      source: 'eslint',
+      message: "Unused lintmesh-ignore-next-line directive (no issues were reported for 'no-unused-vars').",
+    });
+  });
+
+  it('reports nothing when unused reporting is off or no linter succeeded', () => {
+    const quiet = new SuppressionMatcher(cwd, { reportUnused: false });
+    quiet.scan(['a.ts']);
+    expect(quiet.report([makeRun()])).toEqual([]);
+
+    const failed = new SuppressionMatcher(cwd);
+    failed.scan(['a.ts']);
+    expect(failed.report([makeRun({ success: false })])).toEqual([]);
+  });
+
+  it('ignores and reports directives without a reason when one is required', () => {
+    const matcher = new SuppressionMatcher(cwd, { requireReason: true });
+    matcher.scan(['a.ts']);
+    const remaining = matcher.filter([
+      makeIssue({ path: 'a.ts', line: 2, ruleId: 'eslint/no-console' }),
+      makeIssue({ path: 'a.ts', line: 4, ruleId: 'eslint/no-unused-vars', canonicalRuleId: 'no-unused-vars' }),
+    ]);
+    expect(remaining.map(i => i.line)).toEqual([4]);
+
+    const issues = matcher.report([makeRun()]);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ line: 3, severity: 'error', ruleId: MISSING_REASON_RULE });
+  });
+});
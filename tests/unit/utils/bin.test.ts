@@ -0,0 +1,72 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { missingBinMessage, resolveBin } from '../../../src/utils/bin.js';
+
+describe('resolveBin', () => {
+  let root: string;
+  let originalPath: string | undefined;
+
+  const executable = (file: string) => {
+    const filePath = path.join(root, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, '#!/bin/sh\n');
+    fs.chmodSync(filePath, 0o755);
+    return filePath;
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'lintmesh-'));
+    fs.mkdirSync(path.join(root, 'repo/packages/web'), { recursive: true });
+    originalPath = process.env.PATH;
+    process.env.PATH = path.join(root, 'global');
+  });
+
+  afterEach(() => {
+    process.env.PATH = originalPath;
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('prefers the local bin, then PATH, then a parent node_modules', () => {
+    const cwd = path.join(root, 'repo/packages/web');
+    const hoisted = executable('repo/node_modules/.bin/eslint');
+    expect(resolveBin(['eslint'], cwd)).toEqual({ path: hoisted, source: 'parent' });
+
+    const global = executable('global/eslint');
+    expect(resolveBin(['eslint'], cwd)).toEqual({ path: global, source: 'path' });
+
+    const local = executable('repo/packages/web/node_modules/.bin/eslint');
+    expect(resolveBin(['eslint'], cwd)).toEqual({ path: local, source: 'local' });
+  });
+
+  test('tries every name in one place before moving on', () => {
+    const cwd = path.join(root, 'repo');
+    executable('global/tsgo');
+    const tsc = executable('repo/node_modules/.bin/tsc');
+    expect(resolveBin(['tsgo', 'tsc'], cwd)).toEqual({ path: tsc, source: 'local' });
+  });
+
+  test('uses a configured bin and nothing else', () => {
+    const cwd = path.join(root, 'repo');
+    executable('repo/node_modules/.bin/oxlint');
+    const custom = executable('repo/tools/oxlint');
+    const global = executable('global/oxlint-nightly');
+
+    expect(resolveBin(['oxlint'], cwd, './tools/oxlint')).toEqual({ path: custom, source: 'config' });
+    expect(resolveBin(['oxlint'], cwd, custom)).toEqual({ path: custom, source: 'config' });
+    expect(resolveBin(['oxlint'], cwd, 'oxlint-nightly')).toEqual({ path: global, source: 'config' });
+    expect(resolveBin(['oxlint'], cwd, './tools/missing')).toBeNull();
+  });
+
+  test('returns null when nothing is found', () => {
+    expect(resolveBin(['biome'], path.join(root, 'repo'))).toBeNull();
+  });
+});
+
+describe('missingBinMessage', () => {
+  test('names the configured bin or where lintmesh looked', () => {
+    expect(missingBinMessage(['eslint'], '/opt/eslint')).toBe('/opt/eslint not found (bin in config)');
+    expect(missingBinMessage(['tsgo', 'tsc'])).toContain('tsgo or tsc not found in node_modules/.bin, on PATH');
+  });
+});
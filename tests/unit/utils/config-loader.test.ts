@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describeConfigSources, loadConfig, loadNestedConfigs } from '../../../src/utils/config-loader.js';
+
+describe('loadConfig with extends', () => {
+  let cwd: string;
+
+  const write = (file: string, content: unknown) => {
+    const filePath = path.join(cwd, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, typeof content === 'string' ? content : JSON.stringify(content));
+  };
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'lintmesh-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('merges presets under the config: objects deeply, arrays replaced', () => {
+    write('presets/base.jsonc', `{
+      // shared across repositories
+      "linters": { "eslint": { "enabled": true, "args": ["--max-warnings", "0"] }, "tsc": { "enabled": true } },
+      "exclude": ["dist/**", "coverage/**"],
+      "failOn": "warning"
+    }`);
+    write('lintmesh.jsonc', {
+      extends: './presets/base.jsonc',
+      linters: { eslint: { args: ['--quiet'] }, tsc: { enabled: false } },
+      exclude: ['vendor/**'],
+    });
+
+    const loaded = loadConfig(cwd);
+    expect(loaded.config.linters).toEqual({
+      eslint: { enabled: true, args: ['--quiet'] },
+      tsc: { enabled: false },
+    });
+    expect(loaded.config.exclude).toEqual(['vendor/**']);
+    expect(loaded.config.failOn).toBe('warning');
+    expect(loaded.enabledLinters).toEqual(['eslint']);
+  });
+
+  it('applies presets in order, each after its own presets', () => {
+    write('a.jsonc', { extends: './b.jsonc', failOn: 'info', timeout: 1000 });
+    write('b.jsonc', { failOn: 'error', timeout: 2000, include: ['src/**'] });
+    write('c.jsonc', { timeout: 3000 });
+    write('lintmesh.jsonc', { extends: ['./a.jsonc', './c.jsonc'] });
+
+    const loaded = loadConfig(cwd);
+    expect(loaded.config).toMatchObject({ failOn: 'info', timeout: 3000, include: ['src/**'] });
+    expect(loaded.files.map(f => path.basename(f))).toEqual(['b.jsonc', 'a.jsonc', 'c.jsonc', 'lintmesh.jsonc']);
+  });
+
+  it('resolves presets from packages in node_modules', () => {
+    write('node_modules/@acme/lintmesh-config/package.json', { name: '@acme/lintmesh-config', main: 'lintmesh.jsonc' });
+    write('node_modules/@acme/lintmesh-config/lintmesh.jsonc', { failOn: 'warning' });
+    write('node_modules/@acme/lintmesh-config/strict.jsonc', { failOn: 'info' });
+
+    write('lintmesh.jsonc', { extends: '@acme/lintmesh-config' });
+    expect(loadConfig(cwd).config.failOn).toBe('warning');
+
+    write('lintmesh.jsonc', { extends: '@acme/lintmesh-config/strict.jsonc' });
+    expect(loadConfig(cwd).config.failOn).toBe('info');
+  });
+
+  it('resolves paths in presets from the preset file, and its override globs from the project', () => {
+    write('node_modules/@acme/lintmesh-config/package.json', { name: '@acme/lintmesh-config', main: 'lintmesh.jsonc' });
+    write('node_modules/@acme/lintmesh-config/lintmesh.jsonc', {
+      linters: { eslint: { enabled: true, bin: './bin/eslint' }, tsc: { enabled: true, bin: 'tsc' } },
+      reporters: [{ module: './reporter.mjs' }],
+      overrides: [{ files: ['tests/**', '!tests/fixtures/**'], rules: { 'eslint/no-console': 'off' } }],
+    });
+    write('lintmesh.jsonc', { extends: '@acme/lintmesh-config' });
+
+    const preset = path.join(cwd, 'node_modules/@acme/lintmesh-config');
+    const { config } = loadConfig(cwd);
+    expect(config.linters?.eslint?.bin).toBe(path.join(preset, 'bin/eslint'));
+    expect(config.linters?.tsc?.bin).toBe('tsc');
+    expect(config.reporters).toEqual([{ module: path.join(preset, 'reporter.mjs') }]);
+    expect(config.overrides?.[0].files).toEqual([`${cwd}/tests/**`, `!${cwd}/tests/fixtures/**`]);
+  });
+
+  it('reports missing presets', () => {
+    write('lintmesh.jsonc', { extends: ['./missing.jsonc'] });
+    expect(() => loadConfig(cwd)).toThrow('Preset not found: ./missing.jsonc');
+
+    write('lintmesh.jsonc', { extends: '@acme/not-installed' });
+    expect(() => loadConfig(cwd)).toThrow('is the package installed?');
+  });
+
+  it('detects cycles', () => {
+    write('a.jsonc', { extends: './b.jsonc' });
+    write('b.jsonc', { extends: './a.jsonc' });
+    write('lintmesh.jsonc', { extends: './a.jsonc' });
+
+    expect(() => loadConfig(cwd)).toThrow(/Circular extends: .*lintmesh\.jsonc -> .*a\.jsonc -> .*b\.jsonc -> .*a\.jsonc/);
+  });
+
+  it('validates each preset on its own', () => {
+    write('base.jsonc', { failOn: 'fatal' });
+    write('lintmesh.jsonc', { extends: './base.jsonc' });
+
+    expect(() => loadConfig(cwd)).toThrow(`Invalid config in ${path.join(cwd, 'base.jsonc')}`);
+  });
+
+  it('records where each value came from', () => {
+    write('base.jsonc', { failOn: 'warning', linters: { eslint: { args: ['--quiet'] } }, timeout: 1000 });
+    write('lintmesh.jsonc', { extends: './base.jsonc', linters: { eslint: { enabled: true } }, timeout: 5000 });
+
+    const loaded = loadConfig(cwd);
+    expect(describeConfigSources(loaded, cwd)).toEqual([
+      'config lintmesh.jsonc extends base.jsonc',
+      '  failOn: base.jsonc',
+      '  linters.eslint.args: base.jsonc',
+      '  linters.eslint.enabled: lintmesh.jsonc',
+      '  timeout: lintmesh.jsonc',
+    ]);
+  });
+
+  it('describes nothing without presets', () => {
+    write('lintmesh.jsonc', { failOn: 'warning' });
+    expect(describeConfigSources(loadConfig(cwd), cwd)).toEqual([]);
+  });
+});
+
+describe('hierarchical config discovery', () => {
+  let repo: string;
+
+  const write = (file: string, content: unknown) => {
+    const filePath = path.join(repo, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(content));
+  };
+
+  beforeEach(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'lintmesh-'));
+    fs.mkdirSync(path.join(repo, '.git'));
+    fs.mkdirSync(path.join(repo, 'packages/a/src'), { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('walks up from cwd to the repository root', () => {
+    write('lintmesh.jsonc', { failOn: 'warning', timeout: 1000 });
+    write('packages/a/lintmesh.jsonc', { timeout: 2000 });
+
+    const loaded = loadConfig(path.join(repo, 'packages/a/src'));
+    expect(loaded.configPath).toBe(path.join(repo, 'packages/a/lintmesh.jsonc'));
+    expect(loaded.configDir).toBe(path.join(repo, 'packages/a'));
+    expect(loaded.config).toMatchObject({ failOn: 'warning', timeout: 2000 });
+  });
+
+  it('resolves relative paths in parent configs from their own directory', () => {
+    write('lintmesh.jsonc', {
+      linters: { eslint: { enabled: true, bin: './tools/eslint' } },
+      reporters: [{ module: './reporters/team.mjs' }],
+      overrides: [{ files: ['tests/**'], rules: { 'eslint/no-console': 'off' } }],
+    });
+    write('packages/a/lintmesh.jsonc', { failOn: 'info' });
+
+    const { config } = loadConfig(path.join(repo, 'packages/a'));
+    expect(config.linters?.eslint?.bin).toBe(path.join(repo, 'tools/eslint'));
+    expect(config.reporters).toEqual([{ module: path.join(repo, 'reporters/team.mjs') }]);
+    expect(config.overrides?.map(o => o.files)).toEqual([[`${repo}/tests/**`]]);
+  });
+
+  it('stops at a config marked root', () => {
+    write('lintmesh.jsonc', { failOn: 'warning' });
+    write('packages/a/lintmesh.jsonc', { root: true, timeout: 2000 });
+
+    const loaded = loadConfig(path.join(repo, 'packages/a'));
+    expect(loaded.config.failOn).toBeUndefined();
+    expect(loaded.files).toEqual([path.join(repo, 'packages/a/lintmesh.jsonc')]);
+  });
+
+  it('only looks in cwd outside a repository', () => {
+    fs.rmSync(path.join(repo, '.git'), { recursive: true });
+    write('lintmesh.jsonc', { failOn: 'warning' });
+
+    expect(loadConfig(path.join(repo, 'packages/a')).configPath).toBeNull();
+  });
+
+  it('finds configs in subdirectories, merged over the configs above them', () => {
+    write('lintmesh.jsonc', { failOn: 'warning', rules: { 'eslint/no-console': 'off' } });
+    write('packages/a/lintmesh.jsonc', { rules: { 'tsc/TS7006': 'off' } });
+    write('packages/a/src/.config/lintmesh.jsonc', { failOn: 'info' });
+    write('packages/b/lintmesh.jsonc', { root: true, failOn: 'error' });
+
+    const nested = loadNestedConfigs(loadConfig(repo), repo);
+    expect(nested.map(n => path.relative(repo, n.configDir as string))).toEqual(['packages/a', 'packages/a/src', 'packages/b']);
+    expect(nested[0].config).toMatchObject({ failOn: 'warning', rules: { 'eslint/no-console': 'off', 'tsc/TS7006': 'off' } });
+    expect(nested[1].config).toMatchObject({ failOn: 'info', rules: { 'tsc/TS7006': 'off' } });
+    expect(nested[2].config).toEqual({ root: true, failOn: 'error' });
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'bun:test';
+import { createUnifiedDiff } from '../../../src/utils/diff.js';
+
+const lines = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}\n`).join('');
+
+describe('createUnifiedDiff', () => {
+  it('returns an empty string for identical content', () => {
+    expect(createUnifiedDiff('a.ts', 'same\n', 'same\n')).toBe('');
+  });
+
+  it('writes git headers and a hunk with context', () => {
+    const oldText = lines(5);
+    const newText = oldText.replace('line 3\n', 'LINE 3\n');
+
+    expect(createUnifiedDiff('src/a.ts', oldText, newText)).toBe(
+      [
+        'diff --git a/src/a.ts b/src/a.ts',
+        '--- a/src/a.ts',
+        '+++ b/src/a.ts',
+        '@@ -1,5 +1,5 @@',
+        ' line 1',
+        ' line 2',
+        '-line 3',
+        '+LINE 3',
+        ' line 4',
+        ' line 5',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('splits distant changes into separate hunks', () => {
+    const oldText = lines(20);
+    const newText = oldText.replace('line 2\n', 'LINE 2\n').replace('line 18\n', '');
+
+    const diff = createUnifiedDiff('a.ts', oldText, newText);
+    expect(diff.match(/^@@ .* @@$/gm)).toEqual(['@@ -1,5 +1,5 @@', '@@ -15,6 +15,5 @@']);
+  });
+
+  it('numbers insertions into an empty file from zero', () => {
+    expect(createUnifiedDiff('a.ts', '', 'new\n')).toContain('@@ -0,0 +1,1 @@\n+new\n');
+  });
+
+  it('marks a missing final newline', () => {
+    const diff = createUnifiedDiff('a.ts', 'x\ny', 'x\ny\n');
+    expect(diff).toContain('-y\n\\ No newline at end of file\n+y\n');
+  });
+});
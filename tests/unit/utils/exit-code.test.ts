@@ -25,6 +25,7 @@ function makeOutput(issues: Array<{ severity: 'error' | 'warning' | 'info' }>):
       warnings: issues.filter(i => i.severity === 'warning').length,
       info: issues.filter(i => i.severity === 'info').length,
       fixable: 0,
+      suggestions: 0,
     },
   };
 }
@@ -82,4 +83,15 @@ describe('computeExitCode', () => {
       expect(computeExitCode(output, 'info', false)).toBe(1);
     });
   });
+
+  describe('with a threshold per file', () => {
+    it('uses the threshold for each issue\'s file', () => {
+      const output = makeOutput([{ severity: 'error' }, { severity: 'warning' }]);
+      const strictSecond = (filePath: string) => (filePath === 'file1.ts' ? 'warning' : 'error');
+      const lenientFirst = (filePath: string) => (filePath === 'file0.ts' ? 'info' : 'error');
+      expect(computeExitCode(output, 'error', false, strictSecond)).toBe(1);
+      expect(computeExitCode(makeOutput([{ severity: 'warning' }]), 'error', false, lenientFirst)).toBe(1);
+      expect(computeExitCode(makeOutput([{ severity: 'warning' }, { severity: 'warning' }]), 'warning', false, () => 'error')).toBe(0);
+    });
+  });
 });
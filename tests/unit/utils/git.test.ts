@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { execa } from 'execa';
+import {
+  filterChangedFiles,
+  filterChangedIssues,
+  getChangedFiles,
+  parseUnifiedDiff,
+  unquoteGitPath,
+  type ChangedFiles,
+} from '../../../src/utils/git.js';
+import { makeIssue } from '../reporters/helpers.js';
+
+const DIFF = `diff --git a/src/a.ts b/src/a.ts
+index 1111111..2222222 100644
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -3,0 +4,2 @@ function a() {
++  const x = 1;
++  const y = 2;
+@@ -10 +12 @@ function b() {
+-  return 1;
++  return 2;
+@@ -20,3 +21,0 @@ function c() {
+-  gone();
+-  gone();
+-  gone();
+diff --git a/src/new.ts b/src/new.ts
+new file mode 100644
+index 0000000..3333333
+--- /dev/null
++++ b/src/new.ts
+@@ -0,0 +1,3 @@
++export const a = 1;
++export const b = 2;
++export const c = 3;
+`;
+
+describe('parseUnifiedDiff', () => {
+  it('collects added and modified line ranges per file', () => {
+    const changed = parseUnifiedDiff(DIFF);
+    expect(changed.get('src/a.ts')).toEqual([[4, 5], [12, 12]]);
+    expect(changed.get('src/new.ts')).toEqual([[1, 3]]);
+  });
+
+  it('unquotes paths with special characters', () => {
+    const changed = parseUnifiedDiff('+++ "b/tab\\there/na\\303\\257ve.ts"\n@@ -0,0 +1 @@\n+x\n+++ b/with space.ts\t\n@@ -1 +1 @@\n');
+    expect([...changed.keys()]).toEqual(['tab\there/naïve.ts', 'with space.ts']);
+  });
+
+  it('returns an empty map for an empty diff', () => {
+    expect(parseUnifiedDiff('').size).toBe(0);
+  });
+});
+
+describe('unquoteGitPath', () => {
+  it('decodes C-style escapes and octal UTF-8 bytes', () => {
+    expect(unquoteGitPath('"a\\"b\\\\c\\303\\251"')).toBe('a"b\\cé');
+    expect(unquoteGitPath('plain.ts')).toBe('plain.ts');
+  });
+});
+
+describe('filterChangedFiles', () => {
+  it('keeps only absolute paths present in the changed set', () => {
+    const changed: ChangedFiles = new Map([['src/a.ts', [[1, 1]]]]);
+    const files = ['/repo/src/a.ts', '/repo/src/b.ts'];
+    expect(filterChangedFiles(files, changed, '/repo')).toEqual(['/repo/src/a.ts']);
+  });
+});
+
+describe('filterChangedIssues', () => {
+  const changed: ChangedFiles = new Map<string, [number, number][] | 'all'>([
+    ['src/a.ts', [[4, 5], [12, 12]]],
+    ['src/new.ts', 'all'],
+  ]);
+  const issues = [
+    makeIssue({ path: 'src/a.ts', line: 1, endLine: 1 }),
+    makeIssue({ path: 'src/a.ts', line: 5, endLine: 5 }),
+    makeIssue({ path: 'src/a.ts', line: 10, endLine: 13 }),
+    makeIssue({ path: 'src/new.ts', line: 99, endLine: 99 }),
+    makeIssue({ path: 'src/other.ts', line: 4, endLine: 4 }),
+  ];
+
+  it('drops issues in unchanged files', () => {
+    const kept = filterChangedIssues(issues, changed, false);
+    expect(kept.map(i => `${i.path}:${i.line}`)).toEqual([
+      'src/a.ts:1',
+      'src/a.ts:5',
+      'src/a.ts:10',
+      'src/new.ts:99',
+    ]);
+  });
+
+  it('keeps only issues overlapping changed lines when requested', () => {
+    const kept = filterChangedIssues(issues, changed, true);
+    expect(kept.map(i => `${i.path}:${i.line}`)).toEqual([
+      'src/a.ts:5',
+      'src/a.ts:10',
+      'src/new.ts:99',
+    ]);
+  });
+});
+
+describe('getChangedFiles', () => {
+  let repo: string;
+
+  const git = (...args: string[]) => execa('git', args, { cwd: repo });
+
+  beforeAll(async () => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'lintmesh-git-'));
+    await git('init', '-q', '-b', 'main');
+    await git('config', 'user.email', 'test@example.com');
+    await git('config', 'user.name', 'Test');
+    fs.writeFileSync(path.join(repo, 'a.ts'), 'one\ntwo\nthree\n');
+    fs.writeFileSync(path.join(repo, 'b.ts'), 'unchanged\n');
+    await git('add', '.');
+    await git('commit', '-q', '-m', 'initial');
+  });
+
+  afterAll(() => {
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('reports uncommitted and untracked changes against HEAD', async () => {
+    fs.writeFileSync(path.join(repo, 'a.ts'), 'one\nTWO\nthree\n');
+    fs.writeFileSync(path.join(repo, 'c.ts'), 'new\n');
+
+    const changed = await getChangedFiles(repo);
+    expect(changed.get('a.ts')).toEqual([[2, 2]]);
+    expect(changed.get('c.ts')).toBe('all');
+    expect(changed.has('b.ts')).toBe(false);
+  });
+
+  it('includes committed changes since the merge base with a ref', async () => {
+    await git('checkout', '-q', '-b', 'feature');
+    await git('add', 'a.ts');
+    await git('commit', '-q', '-m', 'change a');
+
+    expect((await getChangedFiles(repo)).has('a.ts')).toBe(false);
+    expect((await getChangedFiles(repo, { since: 'main' })).get('a.ts')).toEqual([[2, 2]]);
+  });
+
+  it('reports non-ASCII paths unquoted, whatever the diff prefix config', async () => {
+    await git('config', 'diff.mnemonicPrefix', 'true');
+    fs.writeFileSync(path.join(repo, 'naïve.ts'), 'one\n');
+    await git('add', 'naïve.ts');
+    await git('commit', '-q', '-m', 'add naïve');
+    fs.writeFileSync(path.join(repo, 'naïve.ts'), 'ONE\n');
+    fs.writeFileSync(path.join(repo, 'über.ts'), 'new\n');
+
+    try {
+      const changed = await getChangedFiles(repo);
+      expect(changed.get('naïve.ts')).toEqual([[1, 1]]);
+      expect(changed.get('über.ts')).toBe('all');
+    } finally {
+      await git('config', '--unset', 'diff.mnemonicPrefix');
+    }
+  });
+
+  it('throws on an unknown ref', async () => {
+    await expect(getChangedFiles(repo, { since: 'no-such-ref' })).rejects.toThrow('git merge-base failed');
+  });
+});
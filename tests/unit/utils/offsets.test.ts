@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'bun:test';
+import { byteOffsetToPosition, lineStarts, utf16IndexToByteOffset } from '../../../src/utils/offsets.js';
+
+describe('lineStarts', () => {
+  it('records the start of every line', () => {
+    expect(lineStarts(Buffer.from('ab\ncd\n\nef'))).toEqual([0, 3, 6, 7]);
+  });
+
+  it('handles empty content', () => {
+    expect(lineStarts(Buffer.from(''))).toEqual([0]);
+  });
+});
+
+describe('byteOffsetToPosition', () => {
+  const starts = lineStarts(Buffer.from('ab\ncd\n\nef'));
+
+  it('maps offsets on the first line', () => {
+    expect(byteOffsetToPosition(starts, 0)).toEqual({ line: 1, column: 1 });
+    expect(byteOffsetToPosition(starts, 2)).toEqual({ line: 1, column: 3 });
+  });
+
+  it('maps offsets on later lines', () => {
+    expect(byteOffsetToPosition(starts, 3)).toEqual({ line: 2, column: 1 });
+    expect(byteOffsetToPosition(starts, 6)).toEqual({ line: 3, column: 1 });
+    expect(byteOffsetToPosition(starts, 8)).toEqual({ line: 4, column: 2 });
+  });
+
+  it('counts columns in UTF-8 bytes', () => {
+    const multibyte = lineStarts(Buffer.from('é\nx'));
+    expect(byteOffsetToPosition(multibyte, 2)).toEqual({ line: 1, column: 3 });
+    expect(byteOffsetToPosition(multibyte, 3)).toEqual({ line: 2, column: 1 });
+  });
+});
+
+describe('utf16IndexToByteOffset', () => {
+  it('counts multi-byte characters and surrogate pairs in UTF-8 bytes', () => {
+    const toBytes = utf16IndexToByteOffset('aé✓🎉b');
+    expect([0, 1, 2, 3, 5, 6].map(toBytes)).toEqual([0, 1, 3, 6, 10, 11]);
+  });
+
+  it('skips a leading BOM in indices but not in offsets', () => {
+    const toBytes = utf16IndexToByteOffset('\uFEFFab');
+    expect([0, 1, 2].map(toBytes)).toEqual([3, 4, 5]);
+  });
+});
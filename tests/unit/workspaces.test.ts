@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  findWorkspacePackages,
+  groupByPackage,
+  parsePnpmWorkspace,
+  readWorkspaceGlobs,
+} from '../../src/workspaces.js';
+
+describe('parsePnpmWorkspace', () => {
+  it('reads block sequences, skipping comments and quotes', () => {
+    const content = [
+      '# workspace',
+      'packages:',
+      "  - 'packages/*'",
+      '  # tooling',
+      '  - "tools/cli" # the CLI',
+      "  - '!**/test/**'",
+      'catalog:',
+      '  react: ^19.0.0',
+    ].join('\n');
+    expect(parsePnpmWorkspace(content)).toEqual(['packages/*', 'tools/cli', '!**/test/**']);
+  });
+
+  it('reads flow sequences', () => {
+    expect(parsePnpmWorkspace("packages: ['apps/*', packages/*]\n")).toEqual(['apps/*', 'packages/*']);
+  });
+
+  it('returns nothing without a packages key', () => {
+    expect(parsePnpmWorkspace('catalog:\n  react: ^19.0.0\n')).toEqual([]);
+  });
+});
+
+describe('workspace discovery', () => {
+  let root: string;
+
+  const write = (file: string, content: unknown) => {
+    const filePath = path.join(root, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, typeof content === 'string' ? content : JSON.stringify(content));
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'lintmesh-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('reads globs from package.json in npm and yarn form, then pnpm-workspace.yaml', () => {
+    write('package.json', { workspaces: ['packages/*'] });
+    expect(readWorkspaceGlobs(root)).toEqual(['packages/*']);
+
+    write('package.json', { workspaces: { packages: ['apps/*'], nohoist: ['**/react'] } });
+    expect(readWorkspaceGlobs(root)).toEqual(['apps/*']);
+
+    write('package.json', { name: 'root' });
+    write('pnpm-workspace.yaml', 'packages:\n  - libs/*\n');
+    expect(readWorkspaceGlobs(root)).toEqual(['libs/*']);
+  });
+
+  it('finds directories with a package.json, root first', async () => {
+    write('package.json', { name: 'monorepo', workspaces: ['packages/*', '!packages/ignored'] });
+    write('packages/web/package.json', { name: '@acme/web' });
+    write('packages/api/package.json', {});
+    write('packages/ignored/package.json', { name: 'ignored' });
+    write('packages/docs/README.md', '');
+
+    expect(await findWorkspacePackages(root)).toEqual([
+      { name: 'monorepo', dir: root },
+      { name: 'packages/api', dir: path.join(root, 'packages/api') },
+      { name: '@acme/web', dir: path.join(root, 'packages/web') },
+    ]);
+  });
+
+  it('fails without workspaces', async () => {
+    write('package.json', { name: 'single' });
+    await expect(findWorkspacePackages(root)).rejects.toThrow('No workspaces found');
+  });
+
+  it('groups files by the deepest package containing them', () => {
+    const packages = [
+      { name: 'monorepo', dir: root },
+      { name: 'web', dir: path.join(root, 'packages/web') },
+      { name: 'web-e2e', dir: path.join(root, 'packages/web/e2e') },
+      { name: 'api', dir: path.join(root, 'packages/api') },
+    ];
+    const file = (p: string) => path.join(root, p);
+
+    expect(groupByPackage(
+      [file('scripts/build.ts'), file('packages/web/src/a.ts'), file('packages/web/e2e/b.ts'), file('packages/web-old/c.ts')],
+      packages
+    )).toEqual([
+      { package: packages[0], dir: root, files: [file('scripts/build.ts'), file('packages/web-old/c.ts')] },
+      { package: packages[1], dir: packages[1].dir, files: [file('packages/web/src/a.ts')] },
+      { package: packages[2], dir: packages[2].dir, files: [file('packages/web/e2e/b.ts')] },
+    ]);
+  });
+});